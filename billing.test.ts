@@ -0,0 +1,162 @@
+import type { StripeUser } from "stripeflare";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  BillingContext,
+  refundCharge,
+  RefundRecord,
+  settleCharge,
+} from "./billing";
+
+function createContext(
+  charge: BillingContext["charge"] = async () => ({
+    charged: true,
+    message: "Charged",
+  })
+): BillingContext {
+  return {
+    user: { access_token: "token", balance: 500 } as StripeUser,
+    charge: vi.fn(charge),
+  };
+}
+
+function createBucket(put: () => Promise<unknown> = async () => ({})) {
+  return { put: vi.fn(put) };
+}
+
+const refund = {
+  amountInCents: 25,
+  route: "/image",
+  prompt: "a cat",
+  params: { size: "1024x1024" },
+  error: new Error("OpenAI API Error"),
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("refundCharge", () => {
+  it("credits the charge back, even into a negative balance", async () => {
+    const ctx = createContext();
+    const record = await refundCharge(ctx, undefined, refund);
+
+    expect(ctx.charge).toHaveBeenCalledWith(-25, true);
+    expect(record).toMatchObject({
+      amountInCents: 25,
+      route: "/image",
+      reason: "OpenAI API Error",
+      refunded: true,
+      message: "Charged",
+    });
+  });
+
+  it("stores the record under a key the refund id alone does not reveal", async () => {
+    const bucket = createBucket();
+    const record = await refundCharge(
+      createContext(),
+      bucket as unknown as R2Bucket,
+      refund
+    );
+
+    const [key, body] = bucket.put.mock.calls[0] as unknown as [string, string];
+    expect(key).toMatch(
+      new RegExp(`^refunds/${record.id}/[0-9a-f-]{36}\\.json$`)
+    );
+    expect(JSON.parse(body) as RefundRecord).toEqual(record);
+  });
+
+  it("does not log the record, which holds the prompt", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    await refundCharge(createContext(), undefined, refund);
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it("reports a failed refund instead of throwing", async () => {
+    const record = await refundCharge(
+      createContext(async () => {
+        throw new Error("Stripe is down");
+      }),
+      undefined,
+      refund
+    );
+    expect(record).toMatchObject({
+      refunded: false,
+      message: "Stripe is down",
+    });
+  });
+
+  it("returns the record when it cannot be stored", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const bucket = createBucket(async () => {
+      throw new Error("R2 is down");
+    });
+    const record = await refundCharge(
+      createContext(),
+      bucket as unknown as R2Bucket,
+      refund
+    );
+    expect(record.refunded).toBe(true);
+  });
+});
+
+describe("settleCharge", () => {
+  it("keeps the estimate when the actual cost is unknown", async () => {
+    const ctx = createContext();
+    expect(await settleCharge(ctx, 30, null)).toEqual({
+      estimatedInCents: 30,
+      actualInCents: 30,
+      chargedInCents: 30,
+      settled: false,
+    });
+    expect(ctx.charge).not.toHaveBeenCalled();
+  });
+
+  it("settles without charging when the estimate was exact", async () => {
+    const ctx = createContext();
+    expect(await settleCharge(ctx, 30, 30)).toMatchObject({
+      chargedInCents: 30,
+      settled: true,
+    });
+    expect(ctx.charge).not.toHaveBeenCalled();
+  });
+
+  it("credits the difference when the estimate was too high", async () => {
+    const ctx = createContext();
+    expect(await settleCharge(ctx, 30, 12)).toEqual({
+      estimatedInCents: 30,
+      actualInCents: 12,
+      chargedInCents: 12,
+      settled: true,
+    });
+    expect(ctx.charge).toHaveBeenCalledWith(-18, true);
+  });
+
+  it("tops up the difference, even into a negative balance", async () => {
+    const ctx = createContext();
+    expect(await settleCharge(ctx, 30, 45)).toMatchObject({
+      chargedInCents: 45,
+      settled: true,
+    });
+    expect(ctx.charge).toHaveBeenCalledWith(15, true);
+  });
+
+  it("keeps the estimate when the adjustment is declined or fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const declined = createContext(async () => ({
+      charged: false,
+      message: "Declined",
+    }));
+    const failed = createContext(async () => {
+      throw new Error("Stripe is down");
+    });
+
+    for (const ctx of [declined, failed]) {
+      expect(await settleCharge(ctx, 30, 45)).toEqual({
+        estimatedInCents: 30,
+        actualInCents: 45,
+        chargedInCents: 30,
+        settled: false,
+      });
+    }
+  });
+});
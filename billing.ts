@@ -0,0 +1,170 @@
+import type { StripeUser } from "stripeflare";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BillingContext {
+  user: StripeUser;
+  charge: (
+    amount: number,
+    allowNegativeBalance: boolean
+  ) => Promise<{ charged: boolean; message: string }>;
+}
+
+export interface RefundRequest {
+  amountInCents: number;
+  route: string;
+  prompt: string;
+  params?: Record<string, unknown>;
+  error: unknown;
+}
+
+export interface Settlement {
+  estimatedInCents: number;
+  actualInCents: number;
+  chargedInCents: number;
+  settled: boolean;
+}
+
+export interface RefundRecord {
+  id: string;
+  userId: string;
+  amountInCents: number;
+  route: string;
+  prompt: string;
+  params: Record<string, unknown>;
+  reason: string;
+  refunded: boolean;
+  message: string;
+  createdAt: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Records are stored under `{id}/{random}.json`. The bucket is public and the
+// refund id is shown to the user, so the random part keeps the record, and
+// the prompt in it, from being fetched by anyone who knows the id. Operators
+// find a record by listing `refunds/{id}/`.
+export const REFUND_PREFIX = "refunds/";
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+export async function getUserId(user: StripeUser): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(user.access_token)
+  );
+  return Array.from(new Uint8Array(digest).subarray(0, 16))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// =============================================================================
+// SETTLEMENT
+// =============================================================================
+
+/**
+ * Settles a held estimate against the actual cost of a completed generation by
+ * charging or crediting the difference. The image has already been produced,
+ * so the top-up may take the balance negative. If the adjustment fails the
+ * user keeps paying the estimate.
+ */
+export async function settleCharge(
+  ctx: BillingContext,
+  estimatedInCents: number,
+  actualInCents: number | null
+): Promise<Settlement> {
+  const unsettled: Settlement = {
+    estimatedInCents,
+    actualInCents: actualInCents ?? estimatedInCents,
+    chargedInCents: estimatedInCents,
+    settled: false,
+  };
+
+  if (actualInCents === null) {
+    return unsettled;
+  }
+
+  const settled: Settlement = {
+    estimatedInCents,
+    actualInCents,
+    chargedInCents: actualInCents,
+    settled: true,
+  };
+
+  const differenceInCents = actualInCents - estimatedInCents;
+  if (differenceInCents === 0) {
+    return settled;
+  }
+
+  try {
+    const { charged, message } = await ctx.charge(differenceInCents, true);
+    if (charged) {
+      return settled;
+    }
+    console.error("Failed to settle charge:", message);
+  } catch (error) {
+    console.error("Failed to settle charge:", error);
+  }
+
+  return unsettled;
+}
+
+// =============================================================================
+// REFUNDS
+// =============================================================================
+
+/**
+ * Credits a charge back to the user after a failed generation and records the
+ * refund for auditing. Never throws: a failed refund is reported in the
+ * returned record so callers can tell the user what happened.
+ */
+export async function refundCharge(
+  ctx: BillingContext,
+  bucket: R2Bucket | undefined,
+  request: RefundRequest
+): Promise<RefundRecord> {
+  const record: RefundRecord = {
+    id: crypto.randomUUID(),
+    userId: await getUserId(ctx.user),
+    amountInCents: request.amountInCents,
+    route: request.route,
+    prompt: request.prompt,
+    params: request.params || {},
+    reason:
+      request.error instanceof Error
+        ? request.error.message
+        : String(request.error),
+    refunded: false,
+    message: "",
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    // A negative charge credits the balance back
+    const { charged, message } = await ctx.charge(-request.amountInCents, true);
+    record.refunded = charged;
+    record.message = message;
+  } catch (error) {
+    record.message = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  if (bucket) {
+    await bucket
+      .put(
+        `${REFUND_PREFIX}${record.id}/${crypto.randomUUID()}.json`,
+        JSON.stringify(record),
+        { httpMetadata: { contentType: "application/json" } }
+      )
+      .catch((error) => {
+        console.error("Failed to record refund:", error);
+      });
+  }
+
+  return record;
+}
@@ -0,0 +1,149 @@
+import { DurableObject } from "cloudflare:workers";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface InFlight {
+  /** True when another request finished generating this key while we waited. */
+  completed: boolean;
+  /** Set when this request holds the lease and must release it with this id. */
+  lease: string | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// Longer than the OpenAI timeout so a lease outlives a slow generation
+const LEASE_MS = 180_000;
+
+// =============================================================================
+// DURABLE OBJECT
+// =============================================================================
+
+/**
+ * One instance per canonical cache key. The first request to acquire the lease
+ * generates the image; identical requests arriving meanwhile wait until it is
+ * released and then read the stored image instead of paying for another one.
+ * If the holder fails or its lease runs out, the lease passes to a single
+ * waiter and the rest keep waiting on it. State is in memory only: if the
+ * instance is evicted the lease is simply gone and the next request takes it.
+ */
+export class ImageCoalescer extends DurableObject {
+  private lease: string | null = null;
+  private leaseExpiresAt = 0;
+  private waiters: Array<(inFlight: InFlight) => void> = [];
+
+  /** Returns the new lease's id, or null while another request holds it. */
+  async acquire(): Promise<string | null> {
+    const now = Date.now();
+    if (this.leaseExpiresAt > now) {
+      return null;
+    }
+    this.lease = crypto.randomUUID();
+    this.leaseExpiresAt = now + LEASE_MS;
+    return this.lease;
+  }
+
+  async wait(): Promise<InFlight> {
+    const lease = await this.acquire();
+    if (lease) {
+      return { completed: false, lease };
+    }
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout>;
+      const waiter = (inFlight: InFlight) => {
+        clearTimeout(timer);
+        resolve(inFlight);
+      };
+      // Waiters all wake when a lease runs out, but only the first takes it
+      // over; the others wait on the new one
+      const takeOverExpiredLease = async () => {
+        const lease = await this.acquire();
+        if (!lease) {
+          timer = setTimeout(
+            takeOverExpiredLease,
+            this.leaseExpiresAt - Date.now()
+          );
+          return;
+        }
+        this.waiters = this.waiters.filter((other) => other !== waiter);
+        resolve({ completed: false, lease });
+      };
+      timer = setTimeout(
+        takeOverExpiredLease,
+        this.leaseExpiresAt - Date.now()
+      );
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Wakes every waiter when the image was stored, or hands the lease to the
+   * longest waiting request when it was not. Releases of a lease that has
+   * already run out and passed on are ignored.
+   */
+  async release(lease: string, succeeded: boolean): Promise<void> {
+    if (lease !== this.lease) {
+      return;
+    }
+
+    if (succeeded) {
+      this.lease = null;
+      this.leaseExpiresAt = 0;
+      const waiters = this.waiters;
+      this.waiters = [];
+      waiters.forEach((waiter) => waiter({ completed: true, lease: null }));
+      return;
+    }
+
+    this.leaseExpiresAt = 0;
+    const next = this.waiters.shift();
+    if (next) {
+      next({ completed: false, lease: await this.acquire() });
+    } else {
+      this.lease = null;
+    }
+  }
+}
+
+// =============================================================================
+// COALESCING
+// =============================================================================
+
+export async function joinInFlight(
+  namespace: DurableObjectNamespace<ImageCoalescer>,
+  key: string
+): Promise<InFlight> {
+  const coalescer = namespace.get(namespace.idFromName(key));
+  const lease = await coalescer.acquire();
+  if (lease) {
+    return { completed: false, lease };
+  }
+  return await coalescer.wait();
+}
+
+/**
+ * Releases the lease once the image has been stored (or immediately when there
+ * is nothing to store). On success every request waiting on the same key is
+ * woken to read it, otherwise one of them takes over generating it.
+ */
+export function releaseInFlight(
+  namespace: DurableObjectNamespace<ImageCoalescer>,
+  key: string,
+  lease: string,
+  save: Promise<unknown> | null
+): void {
+  const coalescer = namespace.get(namespace.idFromName(key));
+  Promise.resolve(save)
+    .then(
+      () => save !== null,
+      () => false
+    )
+    .then((succeeded) => coalescer.release(lease, succeeded))
+    .catch((error) => {
+      console.error("Failed to release in-flight generation:", error);
+    });
+}
@@ -0,0 +1,368 @@
+import { ExtendedEnv } from "./env";
+import { chargeAndGenerate } from "./generation";
+import { recordGeneration } from "./history";
+import { getLimitHeaders } from "./limits";
+import { getRejectionStatus } from "./moderation";
+import { withPlaceholderFormat } from "./placeholder";
+import {
+  calculateImageGenerationCost,
+  formatCents,
+  ImageTokenUsage,
+} from "./pricing";
+import { signGeneratedImage } from "./provenance";
+import { generateImages } from "./providers";
+import { CORS_HEADERS } from "./responses";
+import {
+  OUTPUT_FORMATS,
+  invalid,
+  validateImageRequest,
+  ImageRequest,
+  ValidationError,
+  ValidationResult,
+} from "./schema";
+import { getGenerationKey, getPublicUrl, saveImageToR2 } from "./storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ResponseFormat = "url" | "b64_json";
+
+/** A request body in the shape of OpenAI's `POST /v1/images/generations`. */
+export interface ImagesGenerationsBody {
+  model?: unknown;
+  prompt?: unknown;
+  n?: unknown;
+  size?: unknown;
+  quality?: unknown;
+  response_format?: unknown;
+  output_format?: unknown;
+  output_compression?: unknown;
+  background?: unknown;
+}
+
+export interface ImagesGenerationsRequest {
+  image: ImageRequest;
+  responseFormat: ResponseFormat;
+}
+
+export interface ImagesGenerationsData {
+  url?: string;
+  b64_json?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const IMAGES_GENERATIONS_PATH = "/v1/images/generations";
+
+const RESPONSE_FORMATS: ResponseFormat[] = ["b64_json", "url"];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value)
+    : null;
+}
+
+export function encodeBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked so large images don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Reads the bearer key OpenAI SDKs send, which is the Stripeflare access
+ * token for this service.
+ */
+function getBearerToken(request: Request): string | null {
+  const match = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function parseImagesGenerationsBody(
+  body: ImagesGenerationsBody
+): ValidationResult<ImagesGenerationsRequest> {
+  // gpt-image-1 itself only returns base64, so that stays the default
+  const responseFormat = (optionalString(body.response_format) ||
+    "b64_json") as ResponseFormat;
+  if (!RESPONSE_FORMATS.includes(responseFormat)) {
+    return invalid(
+      "invalid_response_format",
+      "response_format",
+      `Invalid response_format "${responseFormat}"`,
+      RESPONSE_FORMATS
+    );
+  }
+
+  const validated = validateImageRequest({
+    model: optionalString(body.model),
+    prompt: optionalString(body.prompt),
+    n: optionalString(body.n),
+    size: optionalString(body.size),
+    quality: optionalString(body.quality),
+    format: optionalString(body.output_format),
+    compression: optionalString(body.output_compression),
+    background: optionalString(body.background),
+  });
+  if (!validated.ok) {
+    return validated;
+  }
+
+  return { ok: true, value: { image: validated.value, responseFormat } };
+}
+
+// =============================================================================
+// RESPONSE HANDLERS
+// =============================================================================
+
+function createImagesGenerationsResponse(
+  request: ImageRequest,
+  data: ImagesGenerationsData[],
+  usage: ImageTokenUsage | null,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      background: request.background,
+      data,
+      output_format: request.outputFormat,
+      quality: request.quality,
+      size: request.size,
+      ...(usage && { usage }),
+    }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+        ...headers,
+      },
+    }
+  );
+}
+
+/** Errors in OpenAI's `{ error: { message, type, param, code } }` shape. */
+function createOpenAIErrorResponse(
+  status: number,
+  message: string,
+  code: string,
+  param: string | null = null,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: {
+        message,
+        type: status >= 500 ? "server_error" : "invalid_request_error",
+        param,
+        code,
+      },
+    }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache",
+        ...headers,
+      },
+    }
+  );
+}
+
+function createOpenAIValidationErrorResponse(
+  error: ValidationError,
+  headers: Record<string, string> = {}
+): Response {
+  return createOpenAIErrorResponse(
+    400,
+    error.message,
+    error.code,
+    error.field,
+    headers
+  );
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+/**
+ * OpenAI's image generation API, charged like the path API but never served
+ * from the cache. Images are stored and linked for `response_format=url`, and
+ * only returned inline for `b64_json` or when storing them fails.
+ */
+export async function handleImagesGenerationsRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  // OpenAI SDKs send the access token as their API key
+  if (!ctx.registered) {
+    return createOpenAIErrorResponse(
+      401,
+      getBearerToken(request)
+        ? "Incorrect API key provided. Use your access token as the API key."
+        : "You didn't provide an API key. Use your access token as the API key.",
+      "invalid_api_key",
+      null,
+      CORS_HEADERS
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return createOpenAIErrorResponse(
+      400,
+      "The request body must be a JSON object",
+      "invalid_json",
+      null,
+      CORS_HEADERS
+    );
+  }
+
+  const parsed = parseImagesGenerationsBody(body);
+  if (!parsed.ok) {
+    return createOpenAIValidationErrorResponse(parsed.error, CORS_HEADERS);
+  }
+  const { responseFormat } = parsed.value;
+  const image = withPlaceholderFormat(env, parsed.value.image);
+  const { n, ...params } = image;
+  const route = IMAGES_GENERATIONS_PATH;
+
+  // Every call generates new images, as OpenAI's endpoint does
+  const costBreakdown = calculateImageGenerationCost({ ...params, n });
+  const insufficientQuota = (message: string) =>
+    createOpenAIErrorResponse(
+      402,
+      `Insufficient balance: ${message}. Add balance at ${ctx.paymentLink}`,
+      "insufficient_quota",
+      null,
+      CORS_HEADERS
+    );
+  const outcome = await chargeAndGenerate(
+    request,
+    env,
+    ctx,
+    {
+      route,
+      params,
+      costBreakdown,
+      quotedInCents: null,
+      paymentRequired: () => insufficientQuota("your balance is empty"),
+      errorResponses: {
+        policyViolation: (moderation) => {
+          const { status, code } = getRejectionStatus(moderation);
+          return createOpenAIErrorResponse(
+            status,
+            moderation.message,
+            code,
+            "prompt",
+            CORS_HEADERS
+          );
+        },
+        limitExceeded: (limit) =>
+          createOpenAIErrorResponse(
+            429,
+            `${limit.message}. Resets at ${limit.resetAt}`,
+            "rate_limit_exceeded",
+            null,
+            { ...CORS_HEADERS, ...getLimitHeaders(limit) }
+          ),
+        paymentFailed: insufficientQuota,
+        generationFailed: (refund) =>
+          createOpenAIErrorResponse(
+            502,
+            refund.refunded
+              ? `Image generation failed: ${refund.reason}. Your balance has been refunded.`
+              : `Image generation failed: ${refund.reason}. Refund failed, please contact support with refund id ${refund.id}.`,
+            "generation_failed",
+            null,
+            CORS_HEADERS
+          ),
+      },
+    },
+    () => generateImages(env, params, n)
+  );
+  if (!outcome.ok) {
+    return outcome.response;
+  }
+  const { userId, settlement, generated } = outcome;
+
+  const { contentType, extension } = OUTPUT_FORMATS[params.outputFormat];
+  const entry = {
+    route,
+    prompt: params.prompt,
+    params: {
+      size: params.size,
+      quality: params.quality,
+      format: params.outputFormat,
+      compression: params.outputCompression,
+      background: params.background,
+    },
+    costInCents: Math.ceil(
+      settlement.chargedInCents / generated.imageBuffers.length
+    ),
+  };
+
+  // Each image is recorded, but only stored for the url format
+  const data: ImagesGenerationsData[] = await Promise.all(
+    generated.imageBuffers.map(async (generatedBuffer) => {
+      const imageBuffer = await signGeneratedImage(
+        env,
+        generatedBuffer,
+        params
+      );
+      let key: string | null = null;
+      if (responseFormat === "url") {
+        // The charge is already settled, so an image that could not be
+        // stored is returned inline rather than linked to nothing
+        const generationKey = await getGenerationKey(env, userId, extension);
+        try {
+          await saveImageToR2(
+            env,
+            imageBuffer,
+            generationKey,
+            false,
+            contentType,
+            undefined,
+            { userId, ...entry }
+          );
+          key = generationKey;
+        } catch (error) {
+          console.error("Failed to save to R2:", error);
+        }
+      }
+
+      const url = key && getPublicUrl(env, key);
+      recordGeneration(env.stripeimages, userId, {
+        ...entry,
+        key,
+        visibility: "public",
+        url,
+      }).catch((error) => {
+        console.error("Failed to record history:", error);
+      });
+      return url ? { url } : { b64_json: encodeBase64(imageBuffer) };
+    })
+  );
+
+  return createImagesGenerationsResponse(image, data, generated.usage, {
+    ...CORS_HEADERS,
+    "X-Cost-Estimated": formatCents(settlement.estimatedInCents),
+    "X-Cost-Charged": formatCents(settlement.chargedInCents),
+  });
+}
@@ -0,0 +1,255 @@
+import { getUserId } from "./billing";
+import { ExtendedEnv } from "./env";
+import { serveOrGenerate } from "./generation";
+import { withPlaceholderFormat } from "./placeholder";
+import {
+  IMAGE_MODELS,
+  calculateImageGenerationCost,
+  calculateImageTokens,
+} from "./pricing";
+import { editImage, getProvider, EditParams } from "./providers";
+import { CORS_HEADERS, createErrorResponse } from "./responses";
+import {
+  IMAGE_REQUEST_SCHEMA,
+  createValidationErrorResponse,
+  invalid,
+  validateImageRequest,
+  validateVisibility,
+  ValidationResult,
+} from "./schema";
+import { UPLOAD_FORM_OVERHEAD_BYTES } from "./provenance";
+import { sha256Hex } from "./signing";
+import {
+  SOURCE_IMAGE,
+  detectImageType,
+  getImageDimensions,
+  readBodyWithLimit,
+} from "./sources";
+import { getOutputVariant, getPrivateKey } from "./storage";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// All images and the mask together, as one source image may be
+const MAX_EDIT_BODY_BYTES = SOURCE_IMAGE.maxBytes + UPLOAD_FORM_OVERHEAD_BYTES;
+
+const EDIT_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+export async function getEditCacheKey(
+  params: EditParams,
+  imageBuffers: ArrayBuffer[],
+  maskBuffer: ArrayBuffer | null
+): Promise<string> {
+  const imageHashes = await Promise.all(imageBuffers.map(sha256Hex));
+  const maskHash = maskBuffer ? await sha256Hex(maskBuffer) : "";
+  const key = await sha256Hex(
+    JSON.stringify([
+      params.prompt,
+      params.size,
+      params.quality,
+      imageHashes,
+      maskHash,
+    ])
+  );
+  return `/edit/${key}${getOutputVariant(params)}`;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function parseEditForm(formData: FormData): ValidationResult<EditParams> {
+  const formString = (name: string) => {
+    const value = formData.get(name);
+    return typeof value === "string" ? value : null;
+  };
+
+  const validated = validateImageRequest({
+    model: formString("model"),
+    prompt: formString("prompt"),
+    size: formString("size"),
+    quality: formString("quality"),
+    format: formString("format"),
+    compression: formString("compression"),
+    background: formString("background"),
+  });
+  if (!validated.ok) {
+    return validated;
+  }
+  if (!getProvider(validated.value.model).buildEditRequest) {
+    return invalid(
+      "invalid_model",
+      "model",
+      `${validated.value.model} does not support image edits`,
+      IMAGE_MODELS.filter((model) => getProvider(model).buildEditRequest)
+    );
+  }
+
+  const maxImages = IMAGE_REQUEST_SCHEMA.images.max;
+  const images = [...formData.getAll("image"), ...formData.getAll("image[]")];
+  if (images.length === 0) {
+    return invalid("missing_image", "image", "At least one image is required");
+  }
+  if (images.length > maxImages) {
+    return invalid(
+      "too_many_images",
+      "image",
+      `Too many images. At most ${maxImages} are allowed`
+    );
+  }
+  if (images.some((image) => typeof image === "string")) {
+    return invalid(
+      "invalid_image",
+      "image",
+      "Field image must be a file upload"
+    );
+  }
+
+  const mask = formData.get("mask");
+  if (typeof mask === "string") {
+    return invalid("invalid_image", "mask", "Field mask must be a file upload");
+  }
+
+  return {
+    ok: true,
+    value: { ...validated.value, images: images as File[], mask },
+  };
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+export async function handleEditRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  // Content-Length is optional, so the size is checked while reading
+  const tooLarge = () =>
+    createValidationErrorResponse(
+      request,
+      {
+        code: "invalid_image",
+        field: "image",
+        message: `Uploads must be at most ${
+          SOURCE_IMAGE.maxBytes / 1024 / 1024
+        } MB in total`,
+      },
+      CORS_HEADERS
+    );
+  if (Number(request.headers.get("Content-Length")) > MAX_EDIT_BODY_BYTES) {
+    return tooLarge();
+  }
+  const body = await readBodyWithLimit(request.body, MAX_EDIT_BODY_BYTES);
+  if (!body) {
+    return tooLarge();
+  }
+
+  const formData = await new Response(body, {
+    headers: { "Content-Type": request.headers.get("Content-Type") || "" },
+  })
+    .formData()
+    .catch(() => null);
+  if (!formData) {
+    return createErrorResponse(
+      request,
+      "Edit requests must be multipart/form-data",
+      400,
+      "invalid_form"
+    );
+  }
+
+  const parsed = parseEditForm(formData);
+  if (!parsed.ok) {
+    return createValidationErrorResponse(request, parsed.error, CORS_HEADERS);
+  }
+  const editParams = withPlaceholderFormat(env, parsed.value);
+
+  // Bill source images by their real dimensions
+  const imageBuffers = await Promise.all(
+    editParams.images.map((image) => image.arrayBuffer())
+  );
+  let inputImageTokens = 0;
+  for (const [index, buffer] of imageBuffers.entries()) {
+    const dimensions = getImageDimensions(buffer);
+    if (!dimensions) {
+      return createValidationErrorResponse(
+        request,
+        {
+          code: "invalid_image",
+          field: "image",
+          message: `Unsupported image format for "${editParams.images[index].name}"`,
+          allowed: EDIT_IMAGE_TYPES,
+        },
+        CORS_HEADERS
+      );
+    }
+    inputImageTokens += calculateImageTokens(
+      dimensions.width,
+      dimensions.height
+    );
+  }
+
+  const visibilityField = formData.get("visibility");
+  const visibility = validateVisibility(
+    typeof visibilityField === "string" ? visibilityField : null
+  );
+  if (!visibility.ok) {
+    return createValidationErrorResponse(
+      request,
+      visibility.error,
+      CORS_HEADERS
+    );
+  }
+
+  const maskBuffer = editParams.mask
+    ? await editParams.mask.arrayBuffer()
+    : null;
+  if (maskBuffer && !detectImageType(maskBuffer)) {
+    return createValidationErrorResponse(
+      request,
+      {
+        code: "invalid_image",
+        field: "mask",
+        message: "Unsupported image format for the mask",
+        allowed: EDIT_IMAGE_TYPES,
+      },
+      CORS_HEADERS
+    );
+  }
+  let filename = await getEditCacheKey(editParams, imageBuffers, maskBuffer);
+  if (visibility.value === "private") {
+    if (!ctx.registered) {
+      return new Response(`Payment required: ${ctx.paymentLink}`, {
+        status: 402,
+        headers: { Location: ctx.paymentLink, ...CORS_HEADERS },
+      });
+    }
+    filename = await getPrivateKey(env, await getUserId(ctx.user), filename);
+  }
+
+  return await serveOrGenerate(request, env, ctx, {
+    route: "/edit",
+    origin: new URL(request.url).origin,
+    filename,
+    visibility: visibility.value,
+    params: editParams,
+    costBreakdown: calculateImageGenerationCost({
+      ...editParams,
+      inputImageTokens,
+    }),
+    quotedInCents: null,
+    paymentRequired: () =>
+      new Response(`Payment required: ${ctx.paymentLink}`, {
+        status: 402,
+        headers: { Location: ctx.paymentLink, ...CORS_HEADERS },
+      }),
+    generate: () => editImage(env, editParams),
+  });
+}
@@ -0,0 +1,31 @@
+import { Env as StripeflareEnv } from "stripeflare";
+import type { ImageCoalescer } from "./coalescer";
+import type { ImageJobs } from "./jobs";
+import type { UsageLimiter } from "./limits";
+import type { OperatorStats } from "./stats";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ExtendedEnv = StripeflareEnv & {
+  stripeimages: R2Bucket;
+  R2_PUBLIC_URL: string | undefined;
+  R2_DEV_URL: string | undefined;
+  R2_BUCKET_ID: string;
+  ENVIRONMENT: string;
+  OPENAI_API_KEY: string;
+  PLACEHOLDER_IMAGES: string | undefined;
+  MODERATION: string | undefined;
+  MODERATION_BLOCKLIST: string | undefined;
+  MODERATION_FAIL_OPEN: string | undefined;
+  IMAGE_COALESCER: DurableObjectNamespace<ImageCoalescer>;
+  IMAGE_JOBS: DurableObjectNamespace<ImageJobs>;
+  USAGE_LIMITER: DurableObjectNamespace<UsageLimiter>;
+  OPERATOR_STATS: DurableObjectNamespace<OperatorStats>;
+  IMAGE_SIGNING_SECRET: string | undefined;
+  PROVENANCE_SECRET: string | undefined;
+  ADMIN_SECRET: string | undefined;
+  IMAGE_RETENTION_DAYS: string | undefined;
+  USER_STORAGE_QUOTA_MB: string | undefined;
+};
@@ -0,0 +1,672 @@
+import {
+  getUserId,
+  refundCharge,
+  settleCharge,
+  RefundRecord,
+  Settlement,
+} from "./billing";
+import { joinInFlight, releaseInFlight } from "./coalescer";
+import { ExtendedEnv } from "./env";
+import { recordGeneration } from "./history";
+import { getImageFromR2, getPrivateImageHeaders } from "./images";
+import { settlePendingJobs } from "./jobs";
+import {
+  adjustUsage,
+  createLimitExceededResponse,
+  reserveUsage,
+  LimitDecision,
+} from "./limits";
+import {
+  createPolicyViolationResponse,
+  moderatePrompt,
+  ModerationDecision,
+} from "./moderation";
+import { escapeHtml, renderHtmlPage } from "./negotiation";
+import {
+  calculateProviderCostInDollars,
+  calculateUsageCostInCents,
+  formatCents,
+  ImageCostBreakdown,
+} from "./pricing";
+import { signGeneratedImage } from "./provenance";
+import { GeneratedImage, GeneratedImages, ImageParams } from "./providers";
+import { CORS_HEADERS, createRefundResponse } from "./responses";
+import { OUTPUT_FORMATS, BundleFormat, Visibility } from "./schema";
+import { createSignedUrl } from "./signing";
+import { recordStats } from "./stats";
+import { getPublicUrl, getSigningSecret, saveImageToR2 } from "./storage";
+import { createZipArchive } from "./zip";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** How a route answers when a charge is refused or its generation fails. */
+export interface ChargeErrorResponses {
+  policyViolation: (
+    decision: Extract<ModerationDecision, { allowed: false }>
+  ) => Response;
+  limitExceeded: (
+    limit: Extract<LimitDecision, { allowed: false }>
+  ) => Response;
+  paymentFailed: (message: string) => Response;
+  generationFailed: (refund: RefundRecord) => Response;
+}
+
+export interface BillableGeneration {
+  route: string;
+  params: ImageParams;
+  costBreakdown: ImageCostBreakdown;
+  // A verified /cost quote is charged as is instead of the estimate
+  quotedInCents: number | null;
+  paymentRequired: () => Response;
+  // For routes that answer in another API's error format
+  errorResponses?: Partial<ChargeErrorResponses>;
+}
+
+export interface ChargedGeneration extends BillableGeneration {
+  origin: string;
+  filename: string;
+  visibility: Visibility;
+  generate: () => Promise<GeneratedImage>;
+}
+
+/** `n` images generated in one provider call, each stored under its own key. */
+export interface ChargedBatch extends BillableGeneration {
+  origin: string;
+  filenames: string[];
+  visibility: Visibility;
+  bundle: BundleFormat;
+  generate: () => Promise<GeneratedImages>;
+}
+
+type HoldOutcome =
+  | { ok: false; response: Response }
+  | { ok: true; userId: string; heldInCents: number };
+
+type ChargeOutcome<T> =
+  | { ok: false; response: Response }
+  | { ok: true; userId: string; settlement: Settlement; generated: T };
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+function createImageResponse(
+  imageBuffer: ArrayBuffer,
+  filename: string,
+  contentType: string,
+  settlement: Settlement,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(imageBuffer, {
+    status: 200,
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "public, max-age=3600",
+      "X-Cost-Estimated": formatCents(settlement.estimatedInCents),
+      "X-Cost-Charged": formatCents(settlement.chargedInCents),
+      ...CORS_HEADERS,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Returns a batch as a JSON list of URLs, an HTML contact sheet or a ZIP of
+ * the images. Private images are linked through signed URLs. Without fresh
+ * `imageBuffers` the stored images are read back from R2 for the ZIP.
+ */
+async function createBatchResponse(
+  request: Request,
+  env: ExtendedEnv,
+  batch: ChargedBatch,
+  imageBuffers: ArrayBuffer[] | null,
+  settlement: Settlement | null
+): Promise<Response> {
+  const { filenames, params } = batch;
+  const { contentType, extension } = OUTPUT_FORMATS[params.outputFormat];
+  const costHeaders: Record<string, string> = settlement
+    ? {
+        "X-Cost-Estimated": formatCents(settlement.estimatedInCents),
+        "X-Cost-Charged": formatCents(settlement.chargedInCents),
+      }
+    : { "X-Cost-Charged": formatCents(0) };
+  const headers = {
+    "Cache-Control":
+      batch.visibility === "private"
+        ? "private, max-age=3600"
+        : "public, max-age=3600",
+    // Without ?bundle= the format follows the Accept header
+    Vary: "Accept",
+    ...costHeaders,
+    ...CORS_HEADERS,
+  };
+
+  if (batch.bundle === "zip") {
+    const buffers =
+      imageBuffers ??
+      (await Promise.all(
+        filenames.map(async (filename) => {
+          const stored = await env.stripeimages.get(filename);
+          if (!stored) {
+            throw new Error(`Stored image ${filename} is missing`);
+          }
+          return await stored.arrayBuffer();
+        })
+      ));
+    return new Response(
+      createZipArchive(
+        buffers.map((data, index) => ({
+          name: `image-${index + 1}.${extension}`,
+          data,
+        }))
+      ),
+      {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": 'attachment; filename="images.zip"',
+          ...headers,
+        },
+      }
+    );
+  }
+
+  const urls = await Promise.all(
+    filenames.map((filename) =>
+      batch.visibility === "private"
+        ? createSignedUrl(getSigningSecret(env), batch.origin, filename)
+        : Promise.resolve(getPublicUrl(env, filename))
+    )
+  );
+  const images = urls.map((url, index) => ({
+    url,
+    key: filenames[index],
+    contentType,
+  }));
+
+  if (batch.bundle === "sheet") {
+    return new Response(
+      renderHtmlPage(
+        params.prompt,
+        `<h1>${escapeHtml(params.prompt)}</h1>
+<p>${filenames.length} images, ${escapeHtml(
+          `${params.model} ${params.size} ${params.quality}`
+        )}</p>
+<div style="display:grid;grid-template-columns:repeat(auto-fill,minmax(16rem,1fr));gap:1rem">
+${images
+  .map(
+    (image, index) =>
+      `<a href="${escapeHtml(image.url)}"><img src="${escapeHtml(
+        image.url
+      )}" alt="Image ${index + 1}" style="width:100%;height:auto"></a>`
+  )
+  .join("\n")}
+</div>`
+      ),
+      {
+        headers: {
+          "Content-Type": "text/html; charset=utf-8",
+          ...headers,
+        },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify(
+      {
+        prompt: params.prompt,
+        model: params.model,
+        size: params.size,
+        quality: params.quality,
+        n: filenames.length,
+        images,
+        estimatedCost: settlement
+          ? formatCents(settlement.estimatedInCents)
+          : null,
+        charged: costHeaders["X-Cost-Charged"],
+      },
+      null,
+      2
+    ),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+    }
+  );
+}
+
+// =============================================================================
+// BILLING
+// =============================================================================
+
+function getErrorResponses(
+  request: Request,
+  billing: BillableGeneration
+): ChargeErrorResponses {
+  return {
+    policyViolation: (decision) =>
+      createPolicyViolationResponse(request, decision),
+    limitExceeded: (limit) =>
+      createLimitExceededResponse(request, limit, CORS_HEADERS),
+    paymentFailed: (message) =>
+      new Response(`Payment failed: ${message}`, {
+        status: 402,
+        headers: CORS_HEADERS,
+      }),
+    generationFailed: (refund) => createRefundResponse(request, refund),
+    ...billing.errorResponses,
+  };
+}
+
+/**
+ * Charges the estimate, or the quote, up front once the prompt passes
+ * moderation and the user's limits allow it. The caller generates and then
+ * settles the hold, or gives it back with `refundHold`.
+ */
+export async function holdCharge(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any,
+  billing: BillableGeneration
+): Promise<HoldOutcome> {
+  const { route, params, costBreakdown, quotedInCents } = billing;
+  const heldInCents = quotedInCents ?? costBreakdown.totalCostInCents;
+  const errors = getErrorResponses(request, billing);
+
+  // Check user authentication and balance
+  if (!ctx.registered || ctx.user.balance <= 0) {
+    return { ok: false, response: billing.paymentRequired() };
+  }
+
+  // Refuse prompts against the content policy before charging
+  const userId = await getUserId(ctx.user);
+  const moderation = await moderatePrompt(env, userId, route, params.prompt);
+  if (!moderation.allowed) {
+    return { ok: false, response: errors.policyViolation(moderation) };
+  }
+
+  // A quoted price is refused up front rather than partly charged
+  if (quotedInCents !== null && ctx.user.balance < quotedInCents) {
+    return {
+      ok: false,
+      response: errors.paymentFailed(
+        `your balance of ${formatCents(
+          ctx.user.balance
+        )} does not cover the quoted ${formatCents(
+          quotedInCents
+        )}. Add balance at ${ctx.paymentLink}`
+      ),
+    };
+  }
+
+  // Enforce the user's rate and spend limits before charging
+  const limit = await reserveUsage(env, userId, heldInCents);
+  if (!limit.allowed) {
+    return { ok: false, response: errors.limitExceeded(limit) };
+  }
+
+  // Jobs finish in the background, where users cannot be charged, so their
+  // held estimates are settled on the owner's next charged request
+  if (limit.pendingJobs.length > 0) {
+    await settlePendingJobs(env, ctx, userId, limit.pendingJobs);
+  }
+
+  // Charge the estimate, or the quote, up front
+  const { charged, message } = await ctx.charge(heldInCents, false);
+  if (!charged) {
+    await adjustUsage(env, userId, -heldInCents);
+    return { ok: false, response: errors.paymentFailed(message) };
+  }
+
+  return { ok: true, userId, heldInCents };
+}
+
+/**
+ * Credits back `amountInCents` of a charge that bought nothing and takes it
+ * off the user's spend limits.
+ */
+export async function refundHold(
+  env: ExtendedEnv,
+  ctx: any,
+  userId: string,
+  billing: BillableGeneration,
+  amountInCents: number,
+  error: unknown
+): Promise<RefundRecord> {
+  const { route, params, costBreakdown } = billing;
+  const refund = await refundCharge(ctx, env.stripeimages, {
+    amountInCents,
+    route,
+    prompt: params.prompt,
+    params: {
+      size: params.size,
+      quality: params.quality,
+      n: costBreakdown.n,
+      inputImageTokens: costBreakdown.imageInputTokens,
+    },
+    error,
+  });
+  if (refund.refunded) {
+    await adjustUsage(env, userId, -amountInCents);
+  }
+  recordStats(env, { type: "failure" });
+  return refund;
+}
+
+/**
+ * Holds the estimate, or the quote, runs `generate` and settles the charge
+ * against the usage the provider reports, refunding it if generation fails.
+ * Returns the response to send instead when the user cannot be charged.
+ */
+export async function chargeAndGenerate<
+  T extends { usage: GeneratedImage["usage"] }
+>(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any,
+  billing: BillableGeneration,
+  generate: () => Promise<T>
+): Promise<ChargeOutcome<T>> {
+  const { params, costBreakdown, quotedInCents } = billing;
+  const hold = await holdCharge(request, env, ctx, billing);
+  if (!hold.ok) {
+    return hold;
+  }
+  const { userId, heldInCents } = hold;
+
+  // Generate, refunding the charge if it fails
+  let generated: T;
+  try {
+    generated = await generate();
+  } catch (error) {
+    const refund = await refundHold(
+      env,
+      ctx,
+      userId,
+      billing,
+      heldInCents,
+      error
+    );
+    return {
+      ok: false,
+      response: getErrorResponses(request, billing).generationFailed(refund),
+    };
+  }
+
+  // Settle the held estimate against the usage the provider reports. A
+  // quoted price is final, so there is nothing to settle.
+  const settlement: Settlement =
+    quotedInCents !== null
+      ? {
+          estimatedInCents: quotedInCents,
+          actualInCents: quotedInCents,
+          chargedInCents: quotedInCents,
+          settled: true,
+        }
+      : await settleCharge(
+          ctx,
+          heldInCents,
+          calculateUsageCostInCents(generated.usage, params.model)
+        );
+  await adjustUsage(env, userId, settlement.chargedInCents - heldInCents);
+  recordStats(env, {
+    type: "generation",
+    userId,
+    images: costBreakdown.n,
+    revenueInCents: settlement.chargedInCents,
+    providerCostInDollars: calculateProviderCostInDollars(
+      costBreakdown,
+      generated.usage
+    ),
+  });
+
+  return { ok: true, userId, settlement, generated };
+}
+
+// =============================================================================
+// GENERATION
+// =============================================================================
+
+/**
+ * Serves a stored image or, on a miss, charges for it, generates it, stores it
+ * under `filename` and returns it. Identical concurrent requests are coalesced
+ * so only the first one pays for a generation and the rest are served from R2.
+ */
+export async function serveOrGenerate(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any,
+  generation: ChargedGeneration
+): Promise<Response> {
+  const { route, filename, params } = generation;
+  const isPrivate = generation.visibility === "private";
+  const imageHeaders = isPrivate
+    ? await getPrivateImageHeaders(env, generation.origin, filename)
+    : {};
+
+  // Check for cached image first
+  const cachedImage = await getImageFromR2(env, filename, imageHeaders);
+  if (cachedImage) {
+    recordStats(env, { type: "cache_hit" });
+    return cachedImage;
+  }
+
+  // Wait for an identical request that is already generating
+  const inFlight = await joinInFlight(env.IMAGE_COALESCER, filename);
+  if (inFlight.completed) {
+    const coalescedImage = await getImageFromR2(env, filename, imageHeaders);
+    if (coalescedImage) {
+      recordStats(env, { type: "cache_hit" });
+      return coalescedImage;
+    }
+  }
+
+  let pendingSave: Promise<string> | null = null;
+  try {
+    const outcome = await chargeAndGenerate(
+      request,
+      env,
+      ctx,
+      generation,
+      generation.generate
+    );
+    if (!outcome.ok) {
+      return outcome.response;
+    }
+    const { userId, settlement, generated } = outcome;
+    const imageBuffer = await signGeneratedImage(
+      env,
+      generated.imageBuffer,
+      params
+    );
+
+    const { contentType } = OUTPUT_FORMATS[params.outputFormat];
+    const entry = {
+      route,
+      prompt: params.prompt,
+      params: {
+        size: params.size,
+        quality: params.quality,
+        format: params.outputFormat,
+        compression: params.outputCompression,
+        background: params.background,
+      },
+      costInCents: settlement.chargedInCents,
+    };
+
+    // Save to R2 (don't wait for completion)
+    pendingSave = saveImageToR2(
+      env,
+      imageBuffer,
+      filename,
+      false,
+      contentType,
+      isPrivate ? "private, max-age=31536000" : undefined,
+      { userId, ...entry }
+    );
+    pendingSave.catch((error) => {
+      console.error("Failed to save to R2:", error);
+    });
+
+    // Log the generation against the user (don't wait for completion)
+    recordGeneration(env.stripeimages, userId, {
+      ...entry,
+      key: filename,
+      visibility: generation.visibility,
+      // Private images only get short-lived signed URLs when listed
+      url: isPrivate ? null : getPublicUrl(env, filename),
+    }).catch((error) => {
+      console.error("Failed to record history:", error);
+    });
+
+    // Return the image directly
+    return createImageResponse(
+      imageBuffer,
+      filename,
+      contentType,
+      settlement,
+      imageHeaders
+    );
+  } finally {
+    if (inFlight.lease) {
+      releaseInFlight(
+        env.IMAGE_COALESCER,
+        filename,
+        inFlight.lease,
+        pendingSave
+      );
+    }
+  }
+}
+
+/**
+ * The batch counterpart of `serveOrGenerate`: a batch whose images are all
+ * stored is served free, otherwise all `n` are generated in one call, charged
+ * together and each stored under its own key.
+ */
+export async function serveOrGenerateBatch(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any,
+  batch: ChargedBatch
+): Promise<Response> {
+  const { route, filenames, params } = batch;
+  const isPrivate = batch.visibility === "private";
+  const allStored = async () =>
+    (
+      await Promise.all(
+        filenames.map((filename) => env.stripeimages.head(filename))
+      )
+    ).every(Boolean);
+
+  // Check for a cached batch first
+  if (await allStored()) {
+    recordStats(env, { type: "cache_hit" });
+    return await createBatchResponse(request, env, batch, null, null);
+  }
+
+  // The first key stands for the whole batch while it generates
+  const inFlight = await joinInFlight(env.IMAGE_COALESCER, filenames[0]);
+  if (inFlight.completed && (await allStored())) {
+    recordStats(env, { type: "cache_hit" });
+    return await createBatchResponse(request, env, batch, null, null);
+  }
+
+  let pendingSave: Promise<string[]> | null = null;
+  try {
+    const outcome = await chargeAndGenerate(
+      request,
+      env,
+      ctx,
+      batch,
+      batch.generate
+    );
+    if (!outcome.ok) {
+      return outcome.response;
+    }
+    const { userId, settlement, generated } = outcome;
+    const imageBuffers = await Promise.all(
+      generated.imageBuffers.map((imageBuffer) =>
+        signGeneratedImage(env, imageBuffer, params)
+      )
+    );
+    const { contentType } = OUTPUT_FORMATS[params.outputFormat];
+    const entry = {
+      route,
+      prompt: params.prompt,
+      params: {
+        size: params.size,
+        quality: params.quality,
+        n: filenames.length,
+        format: params.outputFormat,
+        compression: params.outputCompression,
+        background: params.background,
+      },
+      costInCents: Math.ceil(settlement.chargedInCents / filenames.length),
+    };
+
+    // The images must be stored before their URLs are handed out
+    pendingSave = Promise.all(
+      imageBuffers.map((imageBuffer, index) =>
+        saveImageToR2(
+          env,
+          imageBuffer,
+          filenames[index],
+          false,
+          contentType,
+          isPrivate ? "private, max-age=31536000" : undefined,
+          { userId, ...entry }
+        )
+      )
+    );
+    try {
+      await pendingSave;
+    } catch (error) {
+      // Nothing can be served without the images, so the charge goes back
+      console.error("Failed to save to R2:", error);
+      const refund = await refundHold(
+        env,
+        ctx,
+        userId,
+        batch,
+        settlement.chargedInCents,
+        error
+      );
+      return createRefundResponse(request, refund);
+    }
+
+    // Log each image against the user (don't wait for completion)
+    for (const filename of filenames) {
+      recordGeneration(env.stripeimages, userId, {
+        ...entry,
+        key: filename,
+        visibility: batch.visibility,
+        url: isPrivate ? null : getPublicUrl(env, filename),
+      }).catch((error) => {
+        console.error("Failed to record history:", error);
+      });
+    }
+
+    return await createBatchResponse(
+      request,
+      env,
+      batch,
+      imageBuffers,
+      settlement
+    );
+  } finally {
+    if (inFlight.lease) {
+      releaseInFlight(
+        env.IMAGE_COALESCER,
+        filenames[0],
+        inFlight.lease,
+        pendingSave
+      );
+    }
+  }
+}
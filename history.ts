@@ -0,0 +1,264 @@
+import { getUserId } from "./billing";
+import { ExtendedEnv } from "./env";
+import { createErrorResponse, createJsonResponse } from "./responses";
+import { createSignedUrl } from "./signing";
+import { getSigningSecret } from "./storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface HistoryEntry {
+  id: string;
+  route: string;
+  prompt: string;
+  params: Record<string, unknown>;
+  costInCents: number;
+  // Null for images only returned inline, e.g. as b64_json
+  key: string | null;
+  visibility: "public" | "private";
+  url: string | null;
+  createdAt: string;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  nextCursor: string | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const HISTORY_PREFIX = "history/";
+
+export const HISTORY_PAGE_SIZE = { default: 20, max: 100 } as const;
+
+// Larger than any millisecond timestamp, so newer entries sort first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+const ENTRY_ID_PATTERN = /^\d{13}-[0-9a-f-]{36}$/;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function getEntryKey(userId: string, id: string): string {
+  return `${HISTORY_PREFIX}${userId}/${id}.json`;
+}
+
+export function isHistoryEntryId(id: string): boolean {
+  return ENTRY_ID_PATTERN.test(id);
+}
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+/**
+ * Records a generation against a user. Entry ids start with an inverted
+ * timestamp so R2's lexicographic listing returns the newest entries first.
+ */
+export async function recordGeneration(
+  bucket: R2Bucket,
+  userId: string,
+  entry: Omit<HistoryEntry, "id" | "createdAt">
+): Promise<HistoryEntry> {
+  const now = Date.now();
+  const invertedTimestamp = String(MAX_TIMESTAMP - now).padStart(13, "0");
+  const record: HistoryEntry = {
+    id: `${invertedTimestamp}-${crypto.randomUUID()}`,
+    ...entry,
+    createdAt: new Date(now).toISOString(),
+  };
+
+  // The image key is repeated in the metadata so `pruneHistory` can match
+  // entries from a listing without reading each one
+  await bucket.put(getEntryKey(userId, record.id), JSON.stringify(record), {
+    httpMetadata: { contentType: "application/json" },
+    customMetadata: record.key ? { key: record.key } : undefined,
+  });
+
+  return record;
+}
+
+export async function listHistory(
+  bucket: R2Bucket,
+  userId: string,
+  options: { limit: number; cursor?: string }
+): Promise<HistoryPage> {
+  const listed = await bucket.list({
+    prefix: `${HISTORY_PREFIX}${userId}/`,
+    limit: options.limit,
+    cursor: options.cursor,
+  });
+
+  const entries = await Promise.all(
+    listed.objects.map(async (object) => {
+      const stored = await bucket.get(object.key);
+      return stored ? ((await stored.json()) as HistoryEntry) : null;
+    })
+  );
+
+  return {
+    entries: entries.filter((entry): entry is HistoryEntry => entry !== null),
+    nextCursor: listed.truncated ? listed.cursor : null,
+  };
+}
+
+/**
+ * Deletes a user's own history entry. The image itself stays in R2 because
+ * identical requests from other users are served from the same object.
+ */
+export async function deleteHistoryEntry(
+  bucket: R2Bucket,
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const key = getEntryKey(userId, id);
+  if (!(await bucket.head(key))) {
+    return false;
+  }
+  await bucket.delete(key);
+  return true;
+}
+
+/**
+ * Deletes a user's history entries for images that no longer exist, given
+ * their keys. Returns how many entries were deleted. Entries recorded before
+ * the key was kept in their metadata are read to find it.
+ */
+export async function pruneHistory(
+  bucket: R2Bucket,
+  userId: string,
+  deletedKeys: Set<string>
+): Promise<number> {
+  let pruned = 0;
+
+  let cursor: string | undefined;
+  do {
+    const listed = await bucket.list({
+      prefix: `${HISTORY_PREFIX}${userId}/`,
+      cursor,
+      include: ["customMetadata"],
+    });
+
+    // A listed page holds at most 1000 keys, as many as R2 deletes at once
+    const staleEntryKeys: string[] = [];
+    for (const object of listed.objects) {
+      let imageKey = object.customMetadata?.key;
+      if (imageKey === undefined) {
+        const stored = await bucket.get(object.key);
+        imageKey = stored
+          ? ((await stored.json()) as HistoryEntry).key ?? undefined
+          : undefined;
+      }
+      if (imageKey !== undefined && deletedKeys.has(imageKey)) {
+        staleEntryKeys.push(object.key);
+      }
+    }
+    if (staleEntryKeys.length > 0) {
+      await bucket.delete(staleEntryKeys);
+      pruned += staleEntryKeys.length;
+    }
+
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return pruned;
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+export async function handleHistoryRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  if (!ctx.registered) {
+    return createErrorResponse(
+      request,
+      `Not registered. Add balance at ${ctx.paymentLink}`,
+      401,
+      "not_registered"
+    );
+  }
+
+  const url = new URL(request.url);
+  const userId = await getUserId(ctx.user);
+  const entryId = url.pathname.replace(/^\/history\/?/, "");
+
+  if (request.method === "DELETE") {
+    if (!isHistoryEntryId(entryId)) {
+      return createErrorResponse(
+        request,
+        "Invalid history entry id",
+        400,
+        "invalid_id"
+      );
+    }
+    const deleted = await deleteHistoryEntry(env.stripeimages, userId, entryId);
+    if (!deleted) {
+      return createErrorResponse(
+        request,
+        "History entry not found",
+        404,
+        "not_found"
+      );
+    }
+    return createJsonResponse({ deleted: true, id: entryId });
+  }
+
+  if (entryId) {
+    return createErrorResponse(
+      request,
+      "Invalid history path",
+      400,
+      "invalid_path"
+    );
+  }
+
+  const limitParam = url.searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : HISTORY_PAGE_SIZE.default;
+  if (!Number.isInteger(limit) || limit < 1 || limit > HISTORY_PAGE_SIZE.max) {
+    return createErrorResponse(
+      request,
+      `limit must be a whole number between 1 and ${HISTORY_PAGE_SIZE.max}`,
+      400,
+      "invalid_limit"
+    );
+  }
+
+  const page = await listHistory(env.stripeimages, userId, {
+    limit,
+    cursor: url.searchParams.get("cursor") || undefined,
+  });
+
+  // Hand out fresh short-lived URLs for private images
+  const entries = await Promise.all(
+    page.entries.map(async (entry) =>
+      entry.visibility === "private" && entry.key
+        ? {
+            ...entry,
+            url: await createSignedUrl(
+              getSigningSecret(env),
+              url.origin,
+              entry.key
+            ),
+          }
+        : entry
+    )
+  );
+
+  return createJsonResponse({
+    ...page,
+    entries,
+    next: page.nextCursor
+      ? `${url.origin}/history?limit=${limit}&cursor=${encodeURIComponent(
+          page.nextCursor
+        )}`
+      : null,
+  });
+}
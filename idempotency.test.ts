@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { joinInFlight } from "./coalescer";
+import { ExtendedEnv } from "./env";
+import {
+  IDEMPOTENCY,
+  validateIdempotencyKey,
+  withIdempotency,
+} from "./idempotency";
+
+vi.mock("./coalescer", () => ({
+  joinInFlight: vi.fn(),
+  releaseInFlight: vi.fn(),
+}));
+
+interface StoredObject {
+  body: ArrayBuffer;
+  customMetadata: Record<string, string>;
+}
+
+function createEnv(): ExtendedEnv {
+  const objects = new Map<string, StoredObject>();
+  const bucket = {
+    async get(key: string) {
+      const object = objects.get(key);
+      return object
+        ? { ...object, body: new Response(object.body).body }
+        : null;
+    },
+    async put(
+      key: string,
+      body: ArrayBuffer,
+      options: { customMetadata: Record<string, string> }
+    ) {
+      objects.set(key, { body, customMetadata: options.customMetadata });
+    },
+  };
+  return { stripeimages: bucket } as unknown as ExtendedEnv;
+}
+
+function createHandler(status = 200, body = "image") {
+  return vi.fn(
+    async () =>
+      new Response(body, { status, headers: { "X-Cost-Charged": "12" } })
+  );
+}
+
+const request = () => new Request("https://example.com/image/cat");
+
+beforeEach(() => {
+  vi.mocked(joinInFlight).mockResolvedValue({
+    completed: false,
+    lease: "lease",
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("validateIdempotencyKey", () => {
+  it("accepts a missing key or one of up to the maximum length", () => {
+    expect(validateIdempotencyKey(null)).toEqual({ ok: true, value: null });
+    const longest = "k".repeat(IDEMPOTENCY.maxKeyLength);
+    expect(validateIdempotencyKey(longest)).toEqual({
+      ok: true,
+      value: longest,
+    });
+  });
+
+  it("rejects empty and overlong keys", () => {
+    for (const key of ["", "k".repeat(IDEMPOTENCY.maxKeyLength + 1)]) {
+      const result = validateIdempotencyKey(key);
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error.code).toBe("invalid_idempotency_key");
+    }
+  });
+});
+
+describe("withIdempotency", () => {
+  it("runs every request without a key", async () => {
+    const env = createEnv();
+    const handler = createHandler();
+    await withIdempotency(env, "user", null, request(), handler);
+    await withIdempotency(env, "user", null, request(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("replays the first result to retries without running them", async () => {
+    const env = createEnv();
+    const handler = createHandler(500, "failed");
+
+    const first = await withIdempotency(env, "user", "k", request(), handler);
+    const retry = await withIdempotency(env, "user", "k", request(), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(first.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(retry.status).toBe(500);
+    expect(await retry.text()).toBe("failed");
+    expect(retry.headers.get("X-Cost-Charged")).toBe("12");
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+  });
+
+  it("keeps keys apart per user", async () => {
+    const env = createEnv();
+    const handler = createHandler();
+    await withIdempotency(env, "one", "k", request(), handler);
+    await withIdempotency(env, "two", "k", request(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects a key reused for a different request", async () => {
+    const env = createEnv();
+    const handler = createHandler();
+    await withIdempotency(env, "user", "k", request(), handler);
+
+    const reused = await withIdempotency(
+      env,
+      "user",
+      "k",
+      new Request("https://example.com/image/dog"),
+      handler
+    );
+    expect(reused.status).toBe(422);
+    expect(await reused.json()).toMatchObject({
+      code: "idempotency_key_reused",
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs retries again when nothing was charged", async () => {
+    const env = createEnv();
+    const handler = createHandler(402, "Payment required");
+    await withIdempotency(env, "user", "k", request(), handler);
+    await withIdempotency(env, "user", "k", request(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs retries again once the stored result has expired", async () => {
+    vi.useFakeTimers();
+    const env = createEnv();
+    const handler = createHandler();
+    await withIdempotency(env, "user", "k", request(), handler);
+
+    vi.advanceTimersByTime(IDEMPOTENCY.retentionSeconds * 1000 + 1);
+    await withIdempotency(env, "user", "k", request(), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("answers a retry with 409 while the first request still runs", async () => {
+    vi.mocked(joinInFlight).mockResolvedValue({
+      completed: false,
+      lease: null,
+    });
+    const handler = createHandler();
+
+    const response = await withIdempotency(
+      createEnv(),
+      "user",
+      "k",
+      request(),
+      handler
+    );
+    expect(response.status).toBe(409);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
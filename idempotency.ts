@@ -0,0 +1,253 @@
+import { getUserId } from "./billing";
+import { joinInFlight, releaseInFlight } from "./coalescer";
+import { ExtendedEnv } from "./env";
+import { createNegotiatedErrorResponse } from "./negotiation";
+import { CORS_HEADERS } from "./responses";
+import {
+  createValidationErrorResponse,
+  invalid,
+  ValidationResult,
+} from "./schema";
+import { sha256Hex } from "./signing";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface StoredResponseMetadata {
+  status: string;
+  headers: string;
+  fingerprint: string;
+  expiresAt: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+export const IDEMPOTENCY_PREFIX = "idempotency/";
+
+export const IDEMPOTENCY = {
+  retentionSeconds: 24 * 3600,
+  maxKeyLength: 255,
+} as const;
+
+// Nothing was charged or generated, so a retry must be able to run again
+const UNSTORED_STATUSES = [302, 402, 409, 429];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Identifies what a key was first used for, so reusing a key for a different
+ * request is rejected rather than answered with the wrong result.
+ */
+async function getRequestFingerprint(request: Request): Promise<string> {
+  const url = new URL(request.url);
+  const body =
+    request.method === "GET" || request.method === "HEAD"
+      ? ""
+      : await sha256Hex(await request.clone().arrayBuffer());
+  return await sha256Hex(
+    `${request.method} ${url.pathname}${url.search} ${body}`
+  );
+}
+
+export function validateIdempotencyKey(
+  raw: string | null
+): ValidationResult<string | null> {
+  if (raw === null) {
+    return { ok: true, value: null };
+  }
+  if (!raw || raw.length > IDEMPOTENCY.maxKeyLength) {
+    return invalid(
+      "invalid_idempotency_key",
+      IDEMPOTENCY_HEADER,
+      `${IDEMPOTENCY_HEADER} must be between 1 and ${IDEMPOTENCY.maxKeyLength} characters`
+    );
+  }
+  return { ok: true, value: raw };
+}
+
+function createIdempotencyErrorResponse(
+  request: Request,
+  message: string,
+  status: number,
+  code: string
+): Response {
+  return createNegotiatedErrorResponse(
+    request,
+    status,
+    { error: message, code },
+    CORS_HEADERS
+  );
+}
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+async function getStoredResponse(
+  request: Request,
+  bucket: R2Bucket,
+  storageKey: string,
+  fingerprint: string
+): Promise<Response | null> {
+  const stored = await bucket.get(storageKey);
+  const metadata = stored?.customMetadata as StoredResponseMetadata | undefined;
+  if (!stored || !metadata || Date.parse(metadata.expiresAt) <= Date.now()) {
+    return null;
+  }
+
+  if (metadata.fingerprint !== fingerprint) {
+    return createIdempotencyErrorResponse(
+      request,
+      `This ${IDEMPOTENCY_HEADER} was already used for a different request`,
+      422,
+      "idempotency_key_reused"
+    );
+  }
+
+  const headers = new Headers(JSON.parse(metadata.headers));
+  headers.set("Idempotent-Replayed", "true");
+  return new Response(stored.body, {
+    status: Number(metadata.status),
+    headers,
+  });
+}
+
+async function storeResponse(
+  bucket: R2Bucket,
+  storageKey: string,
+  fingerprint: string,
+  status: number,
+  headers: Headers,
+  body: ArrayBuffer
+): Promise<void> {
+  const metadata: StoredResponseMetadata = {
+    status: String(status),
+    headers: JSON.stringify([...headers]),
+    fingerprint,
+    expiresAt: new Date(
+      Date.now() + IDEMPOTENCY.retentionSeconds * 1000
+    ).toISOString(),
+  };
+  await bucket.put(storageKey, body, {
+    httpMetadata: { contentType: headers.get("Content-Type") || undefined },
+    customMetadata: { ...metadata },
+  });
+}
+
+// =============================================================================
+// IDEMPOTENCY
+// =============================================================================
+
+/**
+ * Runs `handler` at most once per user and key within the retention window.
+ * The first result, image or error, is stored and replayed to retries without
+ * charging or generating again; a retry arriving while the first request is
+ * still running waits for it. Results of requests that charged nothing, such
+ * as payment or rate limit errors, are not stored so they can be retried.
+ */
+export async function withIdempotency(
+  env: ExtendedEnv,
+  userId: string,
+  key: string | null,
+  request: Request,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  if (key === null) {
+    return await handler();
+  }
+
+  const storageKey = `${IDEMPOTENCY_PREFIX}${userId}/${await sha256Hex(key)}`;
+  const fingerprint = await getRequestFingerprint(request);
+
+  const replayed = await getStoredResponse(
+    request,
+    env.stripeimages,
+    storageKey,
+    fingerprint
+  );
+  if (replayed) {
+    return replayed;
+  }
+
+  const inFlight = await joinInFlight(env.IMAGE_COALESCER, storageKey);
+  if (!inFlight.lease) {
+    const completed = inFlight.completed
+      ? await getStoredResponse(
+          request,
+          env.stripeimages,
+          storageKey,
+          fingerprint
+        )
+      : null;
+    return (
+      completed ??
+      createIdempotencyErrorResponse(
+        request,
+        `A request with this ${IDEMPOTENCY_HEADER} is still in progress`,
+        409,
+        "idempotency_key_in_use"
+      )
+    );
+  }
+
+  let save: Promise<void> | null = null;
+  try {
+    const response = await handler();
+    if (UNSTORED_STATUSES.includes(response.status)) {
+      return response;
+    }
+
+    const body = await response.arrayBuffer();
+    save = storeResponse(
+      env.stripeimages,
+      storageKey,
+      fingerprint,
+      response.status,
+      response.headers,
+      body
+    );
+    save.catch((error) => {
+      console.error("Failed to store idempotent response:", error);
+    });
+
+    return new Response(body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  } finally {
+    releaseInFlight(env.IMAGE_COALESCER, storageKey, inFlight.lease, save);
+  }
+}
+
+/**
+ * Runs a charging route once per Idempotency-Key, replaying the stored result
+ * to retries. Anonymous requests cannot be charged, so they run unprotected.
+ */
+export async function handleIdempotently(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = validateIdempotencyKey(request.headers.get(IDEMPOTENCY_HEADER));
+  if (!key.ok) {
+    return createValidationErrorResponse(request, key.error, CORS_HEADERS);
+  }
+  if (!ctx.registered || key.value === null) {
+    return await handler();
+  }
+  return await withIdempotency(
+    env,
+    await getUserId(ctx.user),
+    key.value,
+    request,
+    handler
+  );
+}
@@ -0,0 +1,170 @@
+import { ExtendedEnv } from "./env";
+import {
+  getDerivativeKey,
+  resizeImage,
+  ResizeParams,
+  validateResize,
+} from "./resize";
+import { CORS_HEADERS, createErrorResponse } from "./responses";
+import { createValidationErrorResponse } from "./schema";
+import { createSignedUrl, verifySignedUrl } from "./signing";
+import { recordStats } from "./stats";
+import { getSigningSecret } from "./storage";
+
+// =============================================================================
+// R2 STORAGE
+// =============================================================================
+
+export async function getImageFromR2(
+  env: ExtendedEnv,
+  filename: string,
+  headers: Record<string, string> = {}
+): Promise<Response | null> {
+  const stored = await env.stripeimages.get(filename);
+
+  if (!stored) {
+    return null;
+  }
+
+  return new Response(stored.body, {
+    headers: {
+      "Content-Type": stored.httpMetadata?.contentType || "image/png",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "public, max-age=3600",
+      ...CORS_HEADERS,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Serves a resized derivative of a stored image, making it and storing it
+ * next to the original on the first request. Nothing is generated, so
+ * nothing is charged.
+ */
+export async function serveResizedImage(
+  request: Request,
+  env: ExtendedEnv,
+  filename: string,
+  resize: ResizeParams,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const derivativeKey = getDerivativeKey(filename, resize);
+  const cachedImage = await getImageFromR2(env, derivativeKey, headers);
+  if (cachedImage) {
+    recordStats(env, { type: "cache_hit" });
+    return cachedImage;
+  }
+
+  const original = await env.stripeimages.get(filename);
+  if (!original) {
+    return createErrorResponse(
+      request,
+      "Image not found. Only images that have already been generated can be resized",
+      404,
+      "not_found"
+    );
+  }
+  const resized = await resizeImage(await original.arrayBuffer(), resize);
+  if (!resized) {
+    return createValidationErrorResponse(
+      request,
+      {
+        code: "invalid_resize",
+        field: "format",
+        message: "Only PNG images can be resized",
+      },
+      CORS_HEADERS
+    );
+  }
+
+  // The derivative keeps its original's owner, so it counts towards their
+  // storage quota, but it cost them nothing (don't wait for completion)
+  const customMetadata = original.customMetadata?.userId
+    ? { ...original.customMetadata, costInCents: "0" }
+    : undefined;
+  env.stripeimages
+    .put(derivativeKey, resized, {
+      // Derivatives are always PNG, whatever type the original was stored as
+      httpMetadata: { ...original.httpMetadata, contentType: "image/png" },
+      customMetadata,
+    })
+    .catch((error) => {
+      console.error("Failed to save resized image to R2:", error);
+    });
+
+  return new Response(resized, {
+    headers: {
+      "Content-Type": "image/png",
+      "Content-Disposition": `inline; filename="${derivativeKey}"`,
+      "Cache-Control": "public, max-age=3600",
+      ...CORS_HEADERS,
+      ...headers,
+    },
+  });
+}
+
+// =============================================================================
+// PRIVATE IMAGES
+// =============================================================================
+
+export async function getPrivateImageHeaders(
+  env: ExtendedEnv,
+  origin: string,
+  filename: string
+): Promise<Record<string, string>> {
+  return {
+    "Cache-Control": "private, max-age=3600",
+    "X-Signed-Url": await createSignedUrl(
+      getSigningSecret(env),
+      origin,
+      filename
+    ),
+  };
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+export async function handleSignedRequest(
+  request: Request,
+  env: ExtendedEnv
+): Promise<Response> {
+  const url = new URL(request.url);
+  const signed = await verifySignedUrl(getSigningSecret(env), url);
+  if (!signed) {
+    return createErrorResponse(
+      request,
+      "Invalid or expired signed URL",
+      403,
+      "invalid_signature"
+    );
+  }
+
+  const resize = validateResize(url.searchParams);
+  if (!resize.ok) {
+    return createValidationErrorResponse(request, resize.error, CORS_HEADERS);
+  }
+
+  const headers = {
+    "Cache-Control": `private, max-age=${Math.min(
+      signed.remainingSeconds,
+      3600
+    )}`,
+  };
+  if (resize.value) {
+    return await serveResizedImage(
+      request,
+      env,
+      signed.key,
+      resize.value,
+      headers
+    );
+  }
+
+  const image = await getImageFromR2(env, signed.key, headers);
+  return (
+    image || createErrorResponse(request, "Image not found", 404, "not_found")
+  );
+}
@@ -0,0 +1,614 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  BillingContext,
+  getUserId,
+  refundCharge,
+  settleCharge,
+} from "./billing";
+import { ExtendedEnv } from "./env";
+import { BillableGeneration, holdCharge, refundHold } from "./generation";
+import { recordGeneration } from "./history";
+import { addPendingJob, adjustUsage, removePendingJob } from "./limits";
+import { withPlaceholderFormat } from "./placeholder";
+import { generateImage, ImageParams } from "./providers";
+import {
+  calculateImageGenerationCost,
+  calculateProviderCostInDollars,
+  calculateUsageCostInCents,
+  formatCents,
+} from "./pricing";
+import { signGeneratedImage } from "./provenance";
+import {
+  CORS_HEADERS,
+  createErrorResponse,
+  createJsonResponse,
+  createRefundResponse,
+} from "./responses";
+import {
+  OUTPUT_FORMATS,
+  createValidationErrorResponse,
+  validateCallbackUrl,
+  validateImageRequest,
+  validateVisibility,
+  Visibility,
+} from "./schema";
+import {
+  createPayloadSignature,
+  createSignedUrl,
+  createWebhookSecret,
+} from "./signing";
+import { recordStats } from "./stats";
+import {
+  getImageCacheKey,
+  getPrivateKey,
+  getPublicUrl,
+  getSigningSecret,
+  saveImageToR2,
+} from "./storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * `held` means the estimate has been charged but not yet settled or refunded.
+ * The Durable Object cannot charge users itself, so the owner's next charged
+ * request settles or refunds it; `settling` marks a claim in progress.
+ */
+export type JobBilling = "held" | "settling" | "settled" | "refunded";
+
+export interface ImageJob {
+  id: string;
+  userId: string;
+  route: string;
+  status: JobStatus;
+  params: ImageParams;
+  visibility: Visibility;
+  key: string;
+  origin: string;
+  callbackUrl: string | null;
+  // Signs this job's webhooks; only shown to the owner when the job is created
+  webhookSecret: string | null;
+  heldInCents: number;
+  actualInCents: number | null;
+  // Null unless the image was generated rather than found in R2
+  providerCostInDollars: number | null;
+  billing: JobBilling;
+  // When the current `settling` claim was made
+  billingClaimedAt: string | null;
+  error: string | null;
+  webhookAttempts: number;
+  webhookDelivered: boolean;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const JOB_STORAGE_KEY = "job";
+
+const JOB_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// A claim not completed by then is assumed lost with its isolate
+const BILLING_CLAIM_LEASE_MS = 300_000;
+
+const WEBHOOK = {
+  maxAttempts: 4,
+  retryBaseMs: 10_000,
+  timeoutMs: 10_000,
+} as const;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+export function isJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+export function getJobStub(env: ExtendedEnv, id: string) {
+  return env.IMAGE_JOBS.get(env.IMAGE_JOBS.idFromName(id));
+}
+
+/**
+ * The public view of a job, shared by the status route and webhooks. Private
+ * images get a fresh signed URL each time.
+ */
+export async function getJobPayload(
+  env: ExtendedEnv,
+  job: ImageJob
+): Promise<Record<string, unknown>> {
+  let url: string | null = null;
+  if (job.status === "succeeded") {
+    url =
+      job.visibility === "private"
+        ? await createSignedUrl(getSigningSecret(env), job.origin, job.key)
+        : getPublicUrl(env, job.key);
+  }
+
+  const chargedInCents =
+    job.billing === "refunded"
+      ? 0
+      : job.billing === "settled"
+      ? job.actualInCents ?? job.heldInCents
+      : job.heldInCents;
+
+  return {
+    id: job.id,
+    status: job.status,
+    prompt: job.params.prompt,
+    model: job.params.model,
+    size: job.params.size,
+    quality: job.params.quality,
+    format: job.params.outputFormat,
+    visibility: job.visibility,
+    url,
+    error: job.error,
+    billing: job.billing,
+    estimatedCost: formatCents(job.heldInCents),
+    charged: formatCents(chargedInCents),
+    statusUrl: `${job.origin}/jobs/${job.id}`,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+// =============================================================================
+// BILLING
+// =============================================================================
+
+/**
+ * Settles a finished job's held charge against its actual cost, or refunds it
+ * if the job failed. Only one caller can claim a job, so this is safe to call
+ * from concurrent requests. Revenue is only recorded here, once it is final.
+ * Returns the job as it stands afterwards.
+ */
+export async function settleJobBilling(
+  env: ExtendedEnv,
+  ctx: BillingContext,
+  id: string
+): Promise<ImageJob | null> {
+  const stub = getJobStub(env, id);
+  const claimed = await stub.claimBilling();
+  if (!claimed) {
+    return await stub.get();
+  }
+
+  let billing: JobBilling = "held";
+  if (claimed.status === "succeeded") {
+    const settlement = await settleCharge(
+      ctx,
+      claimed.heldInCents,
+      claimed.actualInCents
+    );
+    await adjustUsage(
+      env,
+      claimed.userId,
+      settlement.chargedInCents - claimed.heldInCents
+    );
+    if (settlement.settled) {
+      billing = "settled";
+      if (claimed.providerCostInDollars !== null) {
+        recordStats(env, {
+          type: "generation",
+          userId: claimed.userId,
+          images: 1,
+          revenueInCents: settlement.chargedInCents,
+          providerCostInDollars: claimed.providerCostInDollars,
+        });
+      }
+    }
+  } else {
+    const refund = await refundCharge(ctx, env.stripeimages, {
+      amountInCents: claimed.heldInCents,
+      route: claimed.route,
+      prompt: claimed.params.prompt,
+      params: { size: claimed.params.size, quality: claimed.params.quality },
+      error: new Error(claimed.error || "Job failed"),
+    });
+    if (refund.refunded) {
+      billing = "refunded";
+      await adjustUsage(env, claimed.userId, -claimed.heldInCents);
+    }
+  }
+
+  return await stub.completeBilling(billing);
+}
+
+/**
+ * Settles the user's jobs that finished since their last charged request, as
+ * reported by the usage limiter. Never throws, so it cannot fail the request
+ * it runs in.
+ */
+export async function settlePendingJobs(
+  env: ExtendedEnv,
+  ctx: BillingContext,
+  userId: string,
+  pendingJobs: string[]
+): Promise<void> {
+  try {
+    for (const id of pendingJobs) {
+      const job = await settleJobBilling(env, ctx, id);
+      if (!job || job.billing === "settled" || job.billing === "refunded") {
+        await removePendingJob(env, userId, id);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to settle pending jobs:", error);
+  }
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+export async function handleJobCreateRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  if (!ctx.registered || ctx.user.balance <= 0) {
+    return createErrorResponse(
+      request,
+      `Payment required. Add balance at ${ctx.paymentLink}`,
+      402,
+      "payment_required"
+    );
+  }
+
+  const body = await request.json<Record<string, unknown>>().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return createErrorResponse(
+      request,
+      "Job requests must be a JSON object",
+      400,
+      "invalid_json"
+    );
+  }
+  const field = (name: string) => {
+    const value = body[name];
+    return typeof value === "string" || typeof value === "number"
+      ? String(value)
+      : null;
+  };
+
+  const validated = validateImageRequest({
+    model: field("model"),
+    prompt: field("prompt"),
+    size: field("size"),
+    quality: field("quality"),
+    format: field("format"),
+    compression: field("compression"),
+    background: field("background"),
+  });
+  if (!validated.ok) {
+    return createValidationErrorResponse(
+      request,
+      validated.error,
+      CORS_HEADERS
+    );
+  }
+  const visibility = validateVisibility(field("visibility"));
+  if (!visibility.ok) {
+    return createValidationErrorResponse(
+      request,
+      visibility.error,
+      CORS_HEADERS
+    );
+  }
+  const callbackUrl = validateCallbackUrl(field("callback_url"));
+  if (!callbackUrl.ok) {
+    return createValidationErrorResponse(
+      request,
+      callbackUrl.error,
+      CORS_HEADERS
+    );
+  }
+
+  const imageParams = withPlaceholderFormat(env, validated.value);
+  const userId = await getUserId(ctx.user);
+  let key = await getImageCacheKey(imageParams);
+  if (visibility.value === "private") {
+    key = await getPrivateKey(env, userId, key);
+  }
+
+  // Already stored images are free, so only charge on a miss
+  const cached = await env.stripeimages.head(key);
+  const billable: BillableGeneration = {
+    route: "/jobs",
+    params: imageParams,
+    costBreakdown: calculateImageGenerationCost(imageParams),
+    quotedInCents: null,
+    paymentRequired: () =>
+      createErrorResponse(
+        request,
+        `Payment required. Add balance at ${ctx.paymentLink}`,
+        402,
+        "payment_required"
+      ),
+  };
+  let heldInCents = 0;
+  if (cached) {
+    recordStats(env, { type: "cache_hit" });
+  } else {
+    const hold = await holdCharge(request, env, ctx, billable);
+    if (!hold.ok) {
+      return hold.response;
+    }
+    heldInCents = hold.heldInCents;
+  }
+
+  const now = new Date().toISOString();
+  const job: ImageJob = {
+    id: crypto.randomUUID(),
+    userId,
+    route: "/jobs",
+    status: "queued",
+    params: imageParams,
+    visibility: visibility.value,
+    key,
+    origin: new URL(request.url).origin,
+    callbackUrl: callbackUrl.value,
+    webhookSecret: callbackUrl.value ? createWebhookSecret() : null,
+    heldInCents,
+    actualInCents: null,
+    providerCostInDollars: null,
+    billing: heldInCents > 0 ? "held" : "settled",
+    billingClaimedAt: null,
+    error: null,
+    webhookAttempts: 0,
+    webhookDelivered: false,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+  };
+
+  try {
+    await getJobStub(env, job.id).start(job);
+  } catch (error) {
+    if (heldInCents === 0) {
+      throw error;
+    }
+    const refund = await refundHold(
+      env,
+      ctx,
+      userId,
+      billable,
+      heldInCents,
+      error
+    );
+    return createRefundResponse(request, refund);
+  }
+
+  // The webhook secret is only ever returned here
+  return createJsonResponse(
+    {
+      ...(await getJobPayload(env, job)),
+      ...(job.webhookSecret ? { webhookSecret: job.webhookSecret } : {}),
+    },
+    202
+  );
+}
+
+export async function handleJobStatusRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  if (!ctx.registered) {
+    return createErrorResponse(
+      request,
+      `Not registered. Add balance at ${ctx.paymentLink}`,
+      401,
+      "not_registered"
+    );
+  }
+
+  const id = new URL(request.url).pathname.replace(/^\/jobs\//, "");
+  const job = isJobId(id) ? await getJobStub(env, id).get() : null;
+
+  // Jobs of other users are reported as missing
+  if (!job || job.userId !== (await getUserId(ctx.user))) {
+    return createErrorResponse(request, "Job not found", 404, "not_found");
+  }
+
+  // Pending jobs are otherwise only settled by charged requests, so a job
+  // that has finished is settled as soon as its owner polls it
+  const settled = (await settleJobBilling(env, ctx, id)) ?? job;
+  return createJsonResponse(await getJobPayload(env, settled));
+}
+
+// =============================================================================
+// DURABLE OBJECT
+// =============================================================================
+
+/**
+ * One instance per job. The generation runs from an alarm so it is not tied
+ * to the client connection that submitted it, and the result is written to R2
+ * before the job reports success.
+ */
+export class ImageJobs extends DurableObject<ExtendedEnv> {
+  async start(job: ImageJob): Promise<void> {
+    await this.ctx.storage.put(JOB_STORAGE_KEY, job);
+    await this.ctx.storage.setAlarm(Date.now());
+  }
+
+  async get(): Promise<ImageJob | null> {
+    return (await this.ctx.storage.get<ImageJob>(JOB_STORAGE_KEY)) ?? null;
+  }
+
+  /**
+   * Hands a finished job's held charge to exactly one caller, which must
+   * settle or refund it and then call `completeBilling`. A claim whose lease
+   * has run out is handed out again.
+   */
+  async claimBilling(): Promise<ImageJob | null> {
+    const job = await this.get();
+    const finished = job?.status === "succeeded" || job?.status === "failed";
+    const claimExpired =
+      job?.billing === "settling" &&
+      Date.now() - new Date(job.billingClaimedAt ?? 0).getTime() >=
+        BILLING_CLAIM_LEASE_MS;
+    if (!job || !finished || (job.billing !== "held" && !claimExpired)) {
+      return null;
+    }
+    return await this.update(job, {
+      billing: "settling",
+      billingClaimedAt: new Date().toISOString(),
+    });
+  }
+
+  async completeBilling(billing: JobBilling): Promise<ImageJob | null> {
+    const job = await this.get();
+    return job
+      ? await this.update(job, { billing, billingClaimedAt: null })
+      : null;
+  }
+
+  async alarm(): Promise<void> {
+    let job = await this.get();
+    if (!job) {
+      return;
+    }
+
+    // A job left running was interrupted, so it is simply run again
+    if (job.status === "queued" || job.status === "running") {
+      job = await this.run(job);
+      if (job.billing === "held") {
+        await addPendingJob(this.env, job.userId, job.id);
+      }
+    }
+
+    await this.deliverWebhook(job);
+  }
+
+  private async run(job: ImageJob): Promise<ImageJob> {
+    job = await this.update(job, { status: "running" });
+    const isPrivate = job.visibility === "private";
+
+    try {
+      // Another request may have produced the same image meanwhile
+      if (await this.env.stripeimages.head(job.key)) {
+        recordStats(this.env, { type: "cache_hit" });
+        return await this.update(job, {
+          status: "succeeded",
+          actualInCents: 0,
+          completedAt: new Date().toISOString(),
+        });
+      }
+
+      const generated = await generateImage(this.env, job.params);
+      const actualInCents =
+        calculateUsageCostInCents(generated.usage, job.params.model) ??
+        job.heldInCents;
+      const providerCostInDollars = calculateProviderCostInDollars(
+        calculateImageGenerationCost(job.params),
+        generated.usage
+      );
+
+      const entry = {
+        route: job.route,
+        prompt: job.params.prompt,
+        params: {
+          model: job.params.model,
+          size: job.params.size,
+          quality: job.params.quality,
+          format: job.params.outputFormat,
+          compression: job.params.outputCompression,
+          background: job.params.background,
+        },
+        costInCents: actualInCents,
+      };
+
+      await saveImageToR2(
+        this.env,
+        await signGeneratedImage(this.env, generated.imageBuffer, job.params),
+        job.key,
+        false,
+        OUTPUT_FORMATS[job.params.outputFormat].contentType,
+        isPrivate ? "private, max-age=31536000" : undefined,
+        { userId: job.userId, ...entry }
+      );
+
+      await recordGeneration(this.env.stripeimages, job.userId, {
+        ...entry,
+        key: job.key,
+        visibility: job.visibility,
+        url: isPrivate ? null : getPublicUrl(this.env, job.key),
+      }).catch((error) => {
+        console.error("Failed to record history:", error);
+      });
+
+      return await this.update(job, {
+        status: "succeeded",
+        actualInCents,
+        providerCostInDollars,
+        completedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Job failed:", job.id, error);
+      recordStats(this.env, { type: "failure" });
+      return await this.update(job, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  private async deliverWebhook(job: ImageJob): Promise<void> {
+    if (!job.callbackUrl || !job.webhookSecret || job.webhookDelivered) {
+      return;
+    }
+
+    const body = JSON.stringify(await getJobPayload(this.env, job));
+    let delivered = false;
+    try {
+      const response = await fetch(job.callbackUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "StripeImages/1.0",
+          "X-Signature": await createPayloadSignature(job.webhookSecret, body),
+        },
+        signal: AbortSignal.timeout(WEBHOOK.timeoutMs),
+        body,
+      });
+      delivered = response.ok;
+    } catch (error) {
+      console.error("Webhook failed:", job.id, error);
+    }
+
+    const attempts = job.webhookAttempts + 1;
+    await this.update(job, {
+      webhookAttempts: attempts,
+      webhookDelivered: delivered,
+    });
+
+    // Back off exponentially between retries
+    if (!delivered && attempts < WEBHOOK.maxAttempts) {
+      await this.ctx.storage.setAlarm(
+        Date.now() + WEBHOOK.retryBaseMs * 2 ** (attempts - 1)
+      );
+    }
+  }
+
+  private async update(
+    job: ImageJob,
+    changes: Partial<ImageJob>
+  ): Promise<ImageJob> {
+    const updated = {
+      ...job,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.ctx.storage.put(JOB_STORAGE_KEY, updated);
+    return updated;
+  }
+}
@@ -0,0 +1,499 @@
+import { DurableObject } from "cloudflare:workers";
+import { getUserId } from "./billing";
+import { ExtendedEnv } from "./env";
+import { createNegotiatedErrorResponse } from "./negotiation";
+import { formatCents } from "./pricing";
+import {
+  CORS_HEADERS,
+  createErrorResponse,
+  createJsonResponse,
+} from "./responses";
+import {
+  createValidationErrorResponse,
+  invalid,
+  ValidationResult,
+} from "./schema";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Spend caps are in cents; null means the cap is switched off. */
+export interface UserLimits {
+  requestsPerMinute: number;
+  dailySpendInCents: number | null;
+  monthlySpendInCents: number | null;
+}
+
+export type LimitName = "requests_per_minute" | "daily_spend" | "monthly_spend";
+
+/**
+ * An allowed decision carries the user's finished jobs whose charges are still
+ * held, so they can be settled without another round trip.
+ */
+export type LimitDecision =
+  | { allowed: true; pendingJobs: string[] }
+  | { allowed: false; limit: LimitName; message: string; resetAt: string };
+
+export interface LimitStatus {
+  limits: UserLimits;
+  usage: {
+    requestsLastMinute: number;
+    requestsResetAt: string | null;
+    spentTodayInCents: number;
+    dailyResetAt: string;
+    spentThisMonthInCents: number;
+    monthlyResetAt: string;
+  };
+}
+
+interface LimiterState {
+  limits: UserLimits;
+  // Timestamps of charged requests within the last minute
+  requests: number[];
+  day: string;
+  spentTodayInCents: number;
+  month: string;
+  spentThisMonthInCents: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const LIMITS = {
+  defaults: {
+    requestsPerMinute: 20,
+    dailySpendInCents: 2_500,
+    monthlySpendInCents: 25_000,
+  },
+  requestsPerMinute: { min: 1, max: 120 },
+  maxSpendInCents: 10_000_000,
+} as const;
+
+const STATE_KEY = "state";
+
+const PENDING_JOBS_KEY = "pending_jobs";
+
+const MINUTE_MS = 60_000;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function getDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function getMonth(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+// Days and months run on UTC
+function getNextDay(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+  );
+}
+
+function getNextMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function getLimiterStub(env: ExtendedEnv, userId: string) {
+  return env.USAGE_LIMITER.get(env.USAGE_LIMITER.idFromName(userId));
+}
+
+export async function getLimitStatus(
+  env: ExtendedEnv,
+  userId: string
+): Promise<LimitStatus> {
+  return await getLimiterStub(env, userId).getStatus();
+}
+
+export async function updateLimits(
+  env: ExtendedEnv,
+  userId: string,
+  changes: Partial<UserLimits>
+): Promise<LimitStatus> {
+  return await getLimiterStub(env, userId).setLimits(changes);
+}
+
+/**
+ * Counts a chargeable request and its estimate against the user's limits.
+ * Call before charging; a rejected request is not counted.
+ */
+export async function reserveUsage(
+  env: ExtendedEnv,
+  userId: string,
+  amountInCents: number
+): Promise<LimitDecision> {
+  return await getLimiterStub(env, userId).reserve(amountInCents);
+}
+
+/**
+ * Corrects reserved spend once the real charge is known, e.g. negative after a
+ * refund or a failed charge. Never throws, since the charge has already been
+ * made or reversed.
+ */
+export async function adjustUsage(
+  env: ExtendedEnv,
+  userId: string,
+  deltaInCents: number
+): Promise<void> {
+  if (deltaInCents === 0) {
+    return;
+  }
+  try {
+    await getLimiterStub(env, userId).adjust(deltaInCents);
+  } catch (error) {
+    console.error("Failed to adjust usage:", error);
+  }
+}
+
+/**
+ * Remembers a finished job whose charge is still held, so the user's next
+ * charged request settles it. Never throws; the job's status request settles
+ * it too.
+ */
+export async function addPendingJob(
+  env: ExtendedEnv,
+  userId: string,
+  jobId: string
+): Promise<void> {
+  try {
+    await getLimiterStub(env, userId).addPendingJob(jobId);
+  } catch (error) {
+    console.error("Failed to record pending job:", error);
+  }
+}
+
+export async function removePendingJob(
+  env: ExtendedEnv,
+  userId: string,
+  jobId: string
+): Promise<void> {
+  await getLimiterStub(env, userId).removePendingJob(jobId);
+}
+
+export function getLimitHeaders(
+  limit: Extract<LimitDecision, { allowed: false }>
+): Record<string, string> {
+  const retryAfterSeconds = Math.max(
+    1,
+    Math.ceil((Date.parse(limit.resetAt) - Date.now()) / 1000)
+  );
+  return {
+    "Retry-After": String(retryAfterSeconds),
+    "X-RateLimit-Reset": limit.resetAt,
+  };
+}
+
+/** The response to a request `reserveUsage` rejected, shared by both workers. */
+export function createLimitExceededResponse(
+  request: Request,
+  limit: Extract<LimitDecision, { allowed: false }>,
+  headers: Record<string, string> = {}
+): Response {
+  return createNegotiatedErrorResponse(
+    request,
+    429,
+    {
+      error: limit.message,
+      code:
+        limit.limit === "requests_per_minute"
+          ? "rate_limited"
+          : "spend_limit_exceeded",
+      limit: limit.limit,
+      resetAt: limit.resetAt,
+      message: "Change your limits with POST /limits",
+    },
+    { ...getLimitHeaders(limit), ...headers }
+  );
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function parseSpendLimit(
+  value: unknown,
+  field: string
+): ValidationResult<number | null> {
+  if (value === null) {
+    return { ok: true, value: null };
+  }
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 0 ||
+    value > LIMITS.maxSpendInCents
+  ) {
+    return invalid(
+      "invalid_limit",
+      field,
+      `${field} must be null or a whole number of cents between 0 and ${LIMITS.maxSpendInCents}`
+    );
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Validates a limits update. Only fields present in the body are changed, and
+ * a spend cap of null removes it.
+ */
+export function validateLimits(
+  body: Record<string, unknown>
+): ValidationResult<Partial<UserLimits>> {
+  const changes: Partial<UserLimits> = {};
+
+  if ("requests_per_minute" in body) {
+    const { min, max } = LIMITS.requestsPerMinute;
+    const value = body.requests_per_minute;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max
+    ) {
+      return invalid(
+        "invalid_limit",
+        "requests_per_minute",
+        `requests_per_minute must be a whole number between ${min} and ${max}`
+      );
+    }
+    changes.requestsPerMinute = value;
+  }
+
+  if ("daily_spend_limit_cents" in body) {
+    const parsed = parseSpendLimit(
+      body.daily_spend_limit_cents,
+      "daily_spend_limit_cents"
+    );
+    if (!parsed.ok) {
+      return parsed;
+    }
+    changes.dailySpendInCents = parsed.value;
+  }
+
+  if ("monthly_spend_limit_cents" in body) {
+    const parsed = parseSpendLimit(
+      body.monthly_spend_limit_cents,
+      "monthly_spend_limit_cents"
+    );
+    if (!parsed.ok) {
+      return parsed;
+    }
+    changes.monthlySpendInCents = parsed.value;
+  }
+
+  return { ok: true, value: changes };
+}
+
+/** The public view of a user's limits, shared by the limits route. */
+export function getLimitsPayload(status: LimitStatus): Record<string, unknown> {
+  const { limits, usage } = status;
+  return {
+    limits: {
+      requestsPerMinute: limits.requestsPerMinute,
+      dailySpendLimitCents: limits.dailySpendInCents,
+      monthlySpendLimitCents: limits.monthlySpendInCents,
+    },
+    usage: {
+      requestsLastMinute: usage.requestsLastMinute,
+      requestsResetAt: usage.requestsResetAt,
+      spentToday: formatCents(usage.spentTodayInCents),
+      dailyResetAt: usage.dailyResetAt,
+      spentThisMonth: formatCents(usage.spentThisMonthInCents),
+      monthlyResetAt: usage.monthlyResetAt,
+    },
+  };
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+export async function handleLimitsRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  if (!ctx.registered) {
+    return createErrorResponse(
+      request,
+      `Not registered. Add balance at ${ctx.paymentLink}`,
+      401,
+      "not_registered"
+    );
+  }
+
+  const userId = await getUserId(ctx.user);
+  if (request.method === "GET") {
+    return createJsonResponse(
+      getLimitsPayload(await getLimitStatus(env, userId))
+    );
+  }
+
+  const body = await request.json<Record<string, unknown>>().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return createErrorResponse(
+      request,
+      "Limit updates must be a JSON object",
+      400,
+      "invalid_json"
+    );
+  }
+  const changes = validateLimits(body);
+  if (!changes.ok) {
+    return createValidationErrorResponse(request, changes.error, CORS_HEADERS);
+  }
+
+  return createJsonResponse(
+    getLimitsPayload(await updateLimits(env, userId, changes.value))
+  );
+}
+
+// =============================================================================
+// DURABLE OBJECT
+// =============================================================================
+
+/**
+ * One instance per user, so every request from the same access token is
+ * counted in one place, whichever worker handles it.
+ */
+export class UsageLimiter extends DurableObject<ExtendedEnv> {
+  async getStatus(): Promise<LimitStatus> {
+    const now = new Date();
+    return this.toStatus(await this.load(now), now);
+  }
+
+  async setLimits(changes: Partial<UserLimits>): Promise<LimitStatus> {
+    const now = new Date();
+    const state = await this.load(now);
+    state.limits = { ...state.limits, ...changes };
+    await this.ctx.storage.put(STATE_KEY, state);
+    return this.toStatus(state, now);
+  }
+
+  async reserve(amountInCents: number): Promise<LimitDecision> {
+    const now = new Date();
+    const state = await this.load(now);
+    const { limits } = state;
+
+    if (state.requests.length >= limits.requestsPerMinute) {
+      return {
+        allowed: false,
+        limit: "requests_per_minute",
+        message: `Rate limit of ${limits.requestsPerMinute} requests per minute reached`,
+        resetAt: new Date(state.requests[0] + MINUTE_MS).toISOString(),
+      };
+    }
+    if (
+      limits.dailySpendInCents !== null &&
+      state.spentTodayInCents + amountInCents > limits.dailySpendInCents
+    ) {
+      return {
+        allowed: false,
+        limit: "daily_spend",
+        message: `Daily spend limit of ${formatCents(
+          limits.dailySpendInCents
+        )} reached`,
+        resetAt: getNextDay(now).toISOString(),
+      };
+    }
+    if (
+      limits.monthlySpendInCents !== null &&
+      state.spentThisMonthInCents + amountInCents > limits.monthlySpendInCents
+    ) {
+      return {
+        allowed: false,
+        limit: "monthly_spend",
+        message: `Monthly spend limit of ${formatCents(
+          limits.monthlySpendInCents
+        )} reached`,
+        resetAt: getNextMonth(now).toISOString(),
+      };
+    }
+
+    state.requests.push(now.getTime());
+    state.spentTodayInCents += amountInCents;
+    state.spentThisMonthInCents += amountInCents;
+    await this.ctx.storage.put(STATE_KEY, state);
+    return { allowed: true, pendingJobs: await this.getPendingJobs() };
+  }
+
+  async adjust(deltaInCents: number): Promise<void> {
+    const state = await this.load(new Date());
+    state.spentTodayInCents = Math.max(
+      0,
+      state.spentTodayInCents + deltaInCents
+    );
+    state.spentThisMonthInCents = Math.max(
+      0,
+      state.spentThisMonthInCents + deltaInCents
+    );
+    await this.ctx.storage.put(STATE_KEY, state);
+  }
+
+  async addPendingJob(jobId: string): Promise<void> {
+    const pending = await this.getPendingJobs();
+    if (!pending.includes(jobId)) {
+      await this.ctx.storage.put(PENDING_JOBS_KEY, [...pending, jobId]);
+    }
+  }
+
+  async getPendingJobs(): Promise<string[]> {
+    return (await this.ctx.storage.get<string[]>(PENDING_JOBS_KEY)) ?? [];
+  }
+
+  async removePendingJob(jobId: string): Promise<void> {
+    const pending = await this.getPendingJobs();
+    await this.ctx.storage.put(
+      PENDING_JOBS_KEY,
+      pending.filter((id) => id !== jobId)
+    );
+  }
+
+  /** Loads the state with requests older than a minute and past periods dropped. */
+  private async load(now: Date): Promise<LimiterState> {
+    const stored = await this.ctx.storage.get<LimiterState>(STATE_KEY);
+    const state: LimiterState = stored ?? {
+      limits: { ...LIMITS.defaults },
+      requests: [],
+      day: getDay(now),
+      spentTodayInCents: 0,
+      month: getMonth(now),
+      spentThisMonthInCents: 0,
+    };
+
+    state.requests = state.requests.filter(
+      (timestamp) => timestamp > now.getTime() - MINUTE_MS
+    );
+    if (state.day !== getDay(now)) {
+      state.day = getDay(now);
+      state.spentTodayInCents = 0;
+    }
+    if (state.month !== getMonth(now)) {
+      state.month = getMonth(now);
+      state.spentThisMonthInCents = 0;
+    }
+    return state;
+  }
+
+  private toStatus(state: LimiterState, now: Date): LimitStatus {
+    return {
+      limits: state.limits,
+      usage: {
+        requestsLastMinute: state.requests.length,
+        requestsResetAt: state.requests.length
+          ? new Date(state.requests[0] + MINUTE_MS).toISOString()
+          : null,
+        spentTodayInCents: state.spentTodayInCents,
+        dailyResetAt: getNextDay(now).toISOString(),
+        spentThisMonthInCents: state.spentThisMonthInCents,
+        monthlyResetAt: getNextMonth(now).toISOString(),
+      },
+    };
+  }
+}
@@ -1,16 +1,173 @@
 import { withStripeflare, StripeUser, DORM } from "stripeflare";
-export { DORM };
+import { getUserId } from "./billing";
+import { ImageCoalescer } from "./coalescer";
+import { ExtendedEnv } from "./env";
+import { chargeAndGenerate } from "./generation";
+import {
+  IDEMPOTENCY_HEADER,
+  validateIdempotencyKey,
+  withIdempotency,
+} from "./idempotency";
+import { encodeBase64 } from "./compat";
+import { UsageLimiter } from "./limits";
+import { withPlaceholderFormat } from "./placeholder";
+import { calculateImageGenerationCost } from "./pricing";
+import { generateImages } from "./providers";
+import { OperatorStats } from "./stats";
+import {
+  OUTPUT_FORMATS,
+  createValidationErrorResponse,
+  getOutputOptions,
+  validateImageRequest,
+} from "./schema";
+export { DORM, ImageCoalescer, OperatorStats, UsageLimiter };
+
+function createPaymentRequiredResponse(ctx: any): Response {
+  return new Response("User should pay at " + ctx.paymentLink, {
+    status: 402,
+    headers: { Location: ctx.paymentLink },
+  });
+}
+
+async function handleGenerateRequest(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any
+): Promise<Response> {
+  const t = Date.now();
+
+  try {
+    // Parse query parameters to get image prompt and settings
+    const url = new URL(request.url);
+    const validated = validateImageRequest({
+      prompt: url.searchParams.get("prompt"),
+      size: url.searchParams.get("size"),
+      quality: url.searchParams.get("quality"),
+      ...getOutputOptions(url.searchParams),
+    });
+
+    // Reject invalid parameters before charging
+    if (!validated.ok) {
+      return createValidationErrorResponse(request, validated.error);
+    }
+    const { n, ...params } = withPlaceholderFormat(env, validated.value);
+    const { model, prompt, size, quality, outputFormat } = params;
+
+    // Calculate cost with the same pricing the main worker quotes
+    const costBreakdown = calculateImageGenerationCost({
+      model,
+      prompt,
+      size,
+      quality,
+      n,
+    });
+    const { totalCostInCents: costInCents } = costBreakdown;
+
+    // The same moderation, limits, refunds and settlement apply as on the
+    // main worker. Generate through the model's provider, or placeholders
+    // locally.
+    const outcome = await chargeAndGenerate(
+      request,
+      env,
+      ctx,
+      {
+        route: "/",
+        params,
+        costBreakdown,
+        quotedInCents: null,
+        paymentRequired: () => createPaymentRequiredResponse(ctx),
+        errorResponses: {
+          paymentFailed: (message) =>
+            new Response(
+              JSON.stringify({
+                error: "Could not charge user",
+                message,
+                processingTime: `${Date.now() - t}ms`,
+              }),
+              {
+                status: 402,
+                headers: { "Content-Type": "application/json" },
+              }
+            ),
+          generationFailed: (refund) => {
+            console.error("Image generation failed:", refund.reason);
+            return new Response(
+              JSON.stringify({
+                error: "Image generation failed",
+                details: refund.reason,
+                charged: true,
+                refunded: refund.refunded,
+                refundId: refund.id,
+                user: ctx.user.name,
+                processingTime: `${Date.now() - t}ms`,
+              }),
+              {
+                status: 502,
+                headers: { "Content-Type": "application/json" },
+              }
+            );
+          },
+        },
+      },
+      () => generateImages(env, params, n)
+    );
+    if (!outcome.ok) {
+      return outcome.response;
+    }
+    const { settlement, generated } = outcome;
+
+    const speed = Date.now() - t;
+
+    // Return successful response with image data
+    return new Response(
+      JSON.stringify({
+        success: true,
+        images: generated.imageBuffers.map((imageBuffer) => ({
+          b64_json: encodeBase64(imageBuffer),
+        })),
+        contentType: OUTPUT_FORMATS[outputFormat].contentType,
+        charged: true,
+        costInCents,
+        chargedInCents: settlement.chargedInCents,
+        user: ctx.user.name,
+        processingTime: `${speed}ms`,
+        prompt: prompt,
+      }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*", // Add CORS if needed
+          "Access-Control-Allow-Methods": "GET",
+          "Access-Control-Allow-Headers": "Content-Type",
+        },
+      }
+    );
+  } catch (error) {
+    const speed = Date.now() - t;
+    console.error("Worker Error:", error);
+
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+        processingTime: `${speed}ms`,
+      }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+}
 
 export default {
   fetch: withStripeflare<StripeUser>(async (request, env, ctx) => {
-    const t = Date.now();
+    const extendedEnv = env as ExtendedEnv;
 
     // Check if user is registered and has balance
     if (!ctx.registered || ctx.user.balance <= 0) {
-      return new Response("User should pay at " + ctx.paymentLink, {
-        status: 402,
-        headers: { Location: ctx.paymentLink },
-      });
+      return createPaymentRequiredResponse(ctx);
     }
 
     // Only handle GET requests for image generation
@@ -21,168 +178,20 @@ export default {
       });
     }
 
-    try {
-      // Parse query parameters to get image prompt and settings
-      const url = new URL(request.url);
-      const prompt = url.searchParams.get("prompt");
-      const size = url.searchParams.get("size") || "1024x1024";
-      const quality = url.searchParams.get("quality") || "low";
-      const nParam = url.searchParams.get("n");
-      const n = nParam ? parseInt(nParam, 10) : 1;
-
-      if (!prompt || typeof prompt !== "string") {
-        return new Response(
-          "Missing or invalid required query parameter: prompt",
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
-
-      // Validate other parameters
-      if (
-        typeof size !== "string" ||
-        !["256x256", "512x512", "1024x1024", "1024x1792", "1792x1024"].includes(
-          size
-        )
-      ) {
-        return new Response(
-          "Invalid size. Must be one of: 256x256, 512x512, 1024x1024, 1024x1792, 1792x1024",
-          {
-            status: 400,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
-
-      if (
-        typeof quality !== "string" ||
-        !["low", "medium", "high", "auto"].includes(quality)
-      ) {
-        return new Response('Invalid quality. Must be "low" or "high"', {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
-
-      if (isNaN(n) || n < 1 || n > 4) {
-        return new Response("Invalid n. Must be a number between 1 and 4", {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
-
-      // Calculate cost based on image parameters
-      // OpenAI pricing: HD 1024x1024 = $0.040, Standard 1024x1024 = $0.020
-      let costInCents;
-      if (quality === "high" || quality === "auto") {
-        costInCents = 4 * n; // 4 cents per HD image
-      } else {
-        costInCents = 2 * n; // 2 cents per standard image
-      }
-
-      console.log({ user: ctx.user, prompt, costInCents });
-
-      // Charge the user before making the API call
-      const { charged, message } = await ctx.charge(costInCents, false);
-
-      if (!charged) {
-        const speed = Date.now() - t;
-        return new Response(
-          JSON.stringify({
-            error: "Could not charge user",
-            message,
-            processingTime: `${speed}ms`,
-          }),
-          {
-            status: 402,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
-
-      // Make request to OpenAI API
-      const openaiResponse = await fetch(
-        "https://api.openai.com/v1/images/generations",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${(env as any).OPENAI_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-image-1",
-            prompt: prompt,
-            n: n,
-            size: size,
-            quality: quality,
-          }),
-        }
-      );
-
-      const speed = Date.now() - t;
-
-      if (!openaiResponse.ok) {
-        const errorData = await openaiResponse.json();
-
-        // If OpenAI API fails, you might want to refund the user
-        // This depends on your business logic
-        console.error("OpenAI API Error:", errorData);
-
-        return new Response(
-          JSON.stringify({
-            error: "Image generation failed",
-            details: errorData,
-            charged: true,
-            user: ctx.user.name,
-            processingTime: `${speed}ms`,
-          }),
-          {
-            status: openaiResponse.status,
-            headers: { "Content-Type": "application/json" },
-          }
-        );
-      }
-
-      const imageData = (await openaiResponse.json()) as any;
-
-      // Return successful response with image data
-      return new Response(
-        JSON.stringify({
-          success: true,
-          images: imageData.data,
-          charged: true,
-          costInCents,
-          user: ctx.user.name,
-          processingTime: `${speed}ms`,
-          prompt: prompt,
-        }),
-        {
-          status: 200,
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*", // Add CORS if needed
-            "Access-Control-Allow-Methods": "GET",
-            "Access-Control-Allow-Headers": "Content-Type",
-          },
-        }
-      );
-    } catch (error) {
-      const speed = Date.now() - t;
-      console.error("Worker Error:", error);
-
-      return new Response(
-        JSON.stringify({
-          error: "Internal server error",
-          message: error instanceof Error ? error.message : "Unknown error",
-          processingTime: `${speed}ms`,
-        }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        }
-      );
+    // Retries with the same Idempotency-Key replay the first result
+    const idempotencyKey = validateIdempotencyKey(
+      request.headers.get(IDEMPOTENCY_HEADER)
+    );
+    if (!idempotencyKey.ok) {
+      return createValidationErrorResponse(request, idempotencyKey.error);
     }
+
+    return await withIdempotency(
+      extendedEnv,
+      await getUserId(ctx.user),
+      idempotencyKey.value,
+      request,
+      () => handleGenerateRequest(request, extendedEnv, ctx)
+    );
   }),
 };
@@ -1,125 +1,114 @@
+import { withStripeflare, StripeUser, DORM } from "stripeflare";
+import { getUserId } from "./billing";
 import {
-  withStripeflare,
-  StripeUser,
-  DORM,
-  Env as StripeflareEnv,
-} from "stripeflare";
+  IMAGE_MODELS,
+  PRICING,
+  calculateImageTokens,
+  calculateImageGenerationCost,
+  formatCents,
+  formatDollars,
+  getFeePercentage,
+  getOutputCostInDollars,
+  ImageCostBreakdown,
+  ImageModel,
+} from "./pricing";
+import { ImageCoalescer } from "./coalescer";
+import { handleHistoryRequest } from "./history";
+import { SIGNED_URL_PREFIX } from "./signing";
+import {
+  IMAGE_REQUEST_SCHEMA,
+  createValidationErrorResponse,
+  getOutputOptions,
+  invalid,
+  validateImageRequest,
+  validateBundle,
+  validatePartialImages,
+  validateVisibility,
+  BundleFormat,
+  ImageRequest,
+  RawImageRequest,
+  ValidationResult,
+} from "./schema";
+import { ExtendedEnv } from "./env";
+import { withPlaceholderFormat } from "./placeholder";
+import { getEditCacheKey, handleEditRequest } from "./edit";
+import {
+  serveOrGenerate,
+  serveOrGenerateBatch,
+  BillableGeneration,
+  ChargedGeneration,
+} from "./generation";
+import { getImageDimensions, loadSourceImage, SOURCE_PARAM } from "./sources";
+import { handleIdempotently, IDEMPOTENCY } from "./idempotency";
+import {
+  createNegotiatedResponse,
+  escapeHtml,
+  negotiateContentType,
+  renderHtmlPage,
+  renderHtmlTable,
+} from "./negotiation";
+import {
+  createQuote,
+  QUOTE_EXPIRY_SECONDS,
+  QUOTE_PARAM,
+  verifyQuote,
+} from "./quotes";
+import { runCleanup } from "./retention";
+import { handleVerifyRequest } from "./provenance";
+import { getDerivativeKey, validateResize } from "./resize";
+import { OperatorStats, handleAdminRequest } from "./stats";
+import { UsageLimiter, handleLimitsRequest, LIMITS } from "./limits";
+import {
+  ImageJobs,
+  handleJobCreateRequest,
+  handleJobStatusRequest,
+} from "./jobs";
+import {
+  editImage,
+  generateImage,
+  generateImages,
+  getProvider,
+  streamImage,
+  EditParams,
+  ImageParams,
+} from "./providers";
+import {
+  IMAGES_GENERATIONS_PATH,
+  encodeBase64,
+  handleImagesGenerationsRequest,
+} from "./compat";
+import {
+  getPrivateImageHeaders,
+  handleSignedRequest,
+  serveResizedImage,
+} from "./images";
+import { CORS_HEADERS, createErrorResponse } from "./responses";
+import {
+  getImageCacheKey,
+  getPrivateKey,
+  getPublicUrl,
+  getSigningSecret,
+} from "./storage";
 
-export { DORM };
+export { DORM, ImageCoalescer, ImageJobs, OperatorStats, UsageLimiter };
+export { calculateImageGenerationCost };
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-type ExtendedEnv = StripeflareEnv & {
-  stripeimages: R2Bucket;
-  R2_PUBLIC_URL: string | undefined;
-  R2_DEV_URL: string | undefined;
-  R2_BUCKET_ID: string;
-  ENVIRONMENT: string;
-  OPENAI_API_KEY: string;
-};
-
-interface ImageCostParams {
-  prompt: string;
-  size: string;
-  quality: string;
-  inputImageTokens?: number;
-  cachedInputTokens?: number;
-}
-
-interface ImageCostBreakdown {
-  textInputTokens: number;
-  textInputCost: number;
-  imageInputTokens: number;
-  imageInputCost: number;
-  imageOutputCost: number;
-  totalCostInDollars: number;
-  breakdown: {
-    textInput: string;
-    imageInput: string;
-    imageOutput: string;
-    total: string;
-  };
-}
-
-interface ImageParams {
-  prompt: string;
-  size: string;
-  quality: string;
-}
-
-interface OpenAIImageResponse {
-  data: Array<{
-    url?: string;
-    b64_json?: string;
-  }>;
+/** A generation from a reference image, made through the edit endpoint. */
+interface Variation {
+  source: string;
+  params: EditParams;
+  imageBuffer: ArrayBuffer;
+  inputImageTokens: number;
 }
 
-// =============================================================================
-// CONSTANTS
-// =============================================================================
-
-const PRICING = {
-  TEXT_INPUT_PER_1M: 5.0,
-  TEXT_INPUT_CACHED_PER_1M: 1.25,
-  IMAGE_INPUT_PER_1M: 10.0,
-  IMAGE_INPUT_CACHED_PER_1M: 2.5,
-  IMAGE_OUTPUT_PER_1M: 40.0,
-  OUTPUT_COSTS: {
-    low: {
-      "1024x1024": 0.011,
-      "1024x1536": 0.016,
-      "1536x1024": 0.016,
-    },
-    medium: {
-      "1024x1024": 0.042,
-      "1024x1536": 0.063,
-      "1536x1024": 0.063,
-    },
-    high: {
-      "1024x1024": 0.167,
-      "1024x1536": 0.25,
-      "1536x1024": 0.25,
-    },
-    auto: {
-      "1024x1024": 0.167,
-      "1024x1536": 0.25,
-      "1536x1024": 0.25,
-    },
-  },
-  FEE_PERCENTAGE_PER_IMAGE: 1.2,
-} as const;
-
-const CORS_HEADERS = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET",
-  "Access-Control-Allow-Headers": "Authorization, Content-Type, Cookie",
-  "Access-Control-Max-Age": "86400",
-} as const;
-
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
 
-function calculateImageTokens(width: number, height: number): number {
-  const shortestSide = Math.min(width, height);
-  const scaleFactor = 512 / shortestSide;
-
-  const scaledWidth = Math.ceil(width * scaleFactor);
-  const scaledHeight = Math.ceil(height * scaleFactor);
-
-  const tilesX = Math.ceil(scaledWidth / 512);
-  const tilesY = Math.ceil(scaledHeight / 512);
-  const totalTiles = tilesX * tilesY;
-
-  return totalTiles * 129 + 65;
-}
-
-function estimateTextTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
-
 function parseImageSize(size: string): { width: number; height: number } {
   const [widthStr, heightStr] = size.split("x");
   return {
@@ -128,7 +117,19 @@ function parseImageSize(size: string): { width: number; height: number } {
   };
 }
 
-function parseImagePath(pathname: string): ImageParams | null {
+function acceptsEventStream(request: Request): boolean {
+  return request.headers.get("Accept")?.includes("text/event-stream") ?? false;
+}
+
+// Browsers get a contact sheet and download managers a ZIP by default
+function getDefaultBundle(request: Request): BundleFormat {
+  if (request.headers.get("Accept")?.includes("application/zip")) {
+    return "zip";
+  }
+  return negotiateContentType(request, "json") === "html" ? "sheet" : "json";
+}
+
+function parseImagePath(pathname: string): RawImageRequest | null {
   const parts = pathname
     .replace(/^\/+/, "")
     .split("/")
@@ -139,198 +140,244 @@ function parseImagePath(pathname: string): ImageParams | null {
   }
 
   const prompt = parts[1] ? decodeURIComponent(parts[1]) : "";
-  const size = parts[2] || "1024x1024";
-  const quality = parts[3] || "low";
 
-  return prompt ? { prompt, size, quality } : null;
+  return prompt ? { prompt, size: parts[2], quality: parts[3] } : null;
 }
 
-// =============================================================================
-// COST CALCULATION
-// =============================================================================
+/**
+ * Loads the reference image named by `source` and prices it as input image
+ * tokens at its real dimensions. Variations go through the model's edit
+ * endpoint, which takes a single output image.
+ */
+async function loadVariation(
+  env: ExtendedEnv,
+  ctx: any,
+  params: ImageRequest,
+  source: string
+): Promise<ValidationResult<Variation>> {
+  if (!getProvider(params.model).buildEditRequest) {
+    return invalid(
+      "invalid_model",
+      "model",
+      `${params.model} does not support variations`,
+      IMAGE_MODELS.filter((model) => getProvider(model).buildEditRequest)
+    );
+  }
+  if (params.n !== 1) {
+    return invalid("invalid_n", "n", "Variations return a single image");
+  }
 
-export function calculateImageGenerationCost(
-  params: ImageCostParams
-): ImageCostBreakdown {
-  const {
-    prompt,
-    size,
-    quality,
-    inputImageTokens = 0,
-    cachedInputTokens = 0,
-  } = params;
-
-  const normalizedQuality =
-    quality.toLowerCase() as keyof typeof PRICING.OUTPUT_COSTS;
-
-  // Text input cost
-  const textInputTokens = estimateTextTokens(prompt);
-  const textInputCost =
-    cachedInputTokens > 0
-      ? (cachedInputTokens / 1_000_000) * PRICING.TEXT_INPUT_CACHED_PER_1M
-      : (textInputTokens / 1_000_000) * PRICING.TEXT_INPUT_PER_1M;
-
-  // Image input cost
-  const imageInputCost =
-    inputImageTokens > 0
-      ? (inputImageTokens / 1_000_000) * PRICING.IMAGE_INPUT_PER_1M
-      : 0;
-
-  // Image output cost
-  const imageOutputCost = PRICING.OUTPUT_COSTS[normalizedQuality]?.[size] || 0;
-
-  // Total with fee
-  const totalCostInDollars =
-    (textInputCost + imageInputCost + imageOutputCost) *
-    PRICING.FEE_PERCENTAGE_PER_IMAGE;
+  const loaded = await loadSourceImage(
+    env,
+    source,
+    ctx.registered ? await getUserId(ctx.user) : null
+  );
+  if (!loaded.ok) {
+    return loaded;
+  }
+  const { file, imageBuffer } = loaded.value;
+
+  const dimensions = getImageDimensions(imageBuffer);
+  if (!dimensions) {
+    return invalid(
+      "invalid_source",
+      SOURCE_PARAM,
+      "The dimensions of the source image could not be read"
+    );
+  }
 
   return {
-    textInputTokens,
-    textInputCost,
-    imageInputTokens: inputImageTokens,
-    imageInputCost,
-    imageOutputCost,
-    totalCostInDollars,
-    breakdown: {
-      textInput: `$${textInputCost} (${textInputTokens.toLocaleString()} tokens)`,
-      imageInput:
-        inputImageTokens > 0
-          ? `$${imageInputCost} (${inputImageTokens.toLocaleString()} tokens)`
-          : "$0.00 (0 tokens)",
-      imageOutput: `$${imageOutputCost} (0 tokens)`,
-      total: `$${totalCostInDollars}`,
+    ok: true,
+    value: {
+      source,
+      params: { ...params, images: [file], mask: null },
+      imageBuffer,
+      inputImageTokens: calculateImageTokens(
+        dimensions.width,
+        dimensions.height
+      ),
     },
   };
 }
 
-// =============================================================================
-// R2 STORAGE
-// =============================================================================
+function appendQueryParam(url: string, name: string, value: string): string {
+  return `${url}${url.includes("?") ? "&" : "?"}${name}=${encodeURIComponent(
+    value
+  )}`;
+}
 
-async function saveImageToR2(
-  env: ExtendedEnv,
-  imageData: string | ArrayBuffer,
-  filename: string,
-  isBase64: boolean = false
-): Promise<string> {
-  let imageBuffer: ArrayBuffer;
-
-  if (isBase64 && typeof imageData === "string") {
-    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, "");
-    const binaryString = atob(base64Data);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    imageBuffer = bytes.buffer;
-  } else if (typeof imageData === "string") {
-    const response = await fetch(imageData);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.status}`);
-    }
-    imageBuffer = await response.arrayBuffer();
-  } else {
-    imageBuffer = imageData;
+function getOutputQuery(params: ImageParams, n: number = 1): string {
+  const defaults = IMAGE_REQUEST_SCHEMA.defaults;
+  const query = new URLSearchParams();
+  if (params.model !== defaults.model) {
+    query.set("model", params.model);
   }
-
-  await env.stripeimages.put(filename, imageBuffer, {
-    httpMetadata: {
-      contentType: "image/png",
-      cacheControl: "public, max-age=31536000",
-    },
-  });
-
-  const isDev = env.ENVIRONMENT === "development";
-  const baseUrl = isDev
-    ? env.R2_DEV_URL || `https://pub-${env.R2_BUCKET_ID}.r2.dev`
-    : env.R2_PUBLIC_URL || "https://imagebucket.brubslabs.com";
-
-  return `${baseUrl}/${filename}`;
+  if (n !== defaults.n) {
+    query.set("n", String(n));
+  }
+  if (params.outputFormat !== defaults.format) {
+    query.set("format", params.outputFormat);
+  }
+  if (params.outputCompression !== null) {
+    query.set("compression", String(params.outputCompression));
+  }
+  if (params.background !== defaults.background) {
+    query.set("background", params.background);
+  }
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : "";
 }
 
-async function getImageFromR2(
-  env: ExtendedEnv,
-  filename: string
-): Promise<Response | null> {
-  const stored = await env.stripeimages.get(filename);
-
-  if (!stored) {
-    return null;
+/**
+ * One key per image of a batch, e.g. `/image/cat/1024x1024/low-n3-2.png` for
+ * the second of three, so a repeated batch request is served from R2. A single
+ * image keeps the plain key.
+ */
+function getBatchImageKeys(key: string, n: number): string[] {
+  if (n === 1) {
+    return [key];
   }
+  const extensionStart = key.lastIndexOf(".");
+  return Array.from(
+    { length: n },
+    (_, index) =>
+      `${key.slice(0, extensionStart)}-n${n}-${index + 1}${key.slice(
+        extensionStart
+      )}`
+  );
+}
 
-  return new Response(stored.body, {
-    headers: {
-      "Content-Type": stored.httpMetadata?.contentType || "image/png",
-      "Content-Disposition": `inline; filename="${filename}"`,
-      "Cache-Control": "public, max-age=3600",
-      ...CORS_HEADERS,
-    },
-  });
+/**
+ * R2 keys for a request. A variation is stored like an edit of its source
+ * image, so the same source and prompt are only generated once.
+ */
+async function getRequestKeys(
+  params: ImageRequest,
+  variation: Variation | null
+): Promise<string[]> {
+  return variation
+    ? [await getEditCacheKey(variation.params, [variation.imageBuffer], null)]
+    : getBatchImageKeys(await getImageCacheKey(params), params.n);
 }
 
 // =============================================================================
-// OPENAI API
+// RESPONSE HANDLERS
 // =============================================================================
 
-async function generateImage(
-  env: ExtendedEnv,
-  params: ImageParams
-): Promise<ArrayBuffer> {
-  const response = await fetch("https://api.openai.com/v1/images/generations", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${env.OPENAI_API_KEY}`,
-      "Content-Type": "application/json",
-      "User-Agent": "StripeImages/1.0",
-      Accept: "application/json",
-    },
-    body: JSON.stringify({
-      model: "gpt-image-1",
-      prompt: params.prompt,
-      n: 1,
-      size: params.size,
-      quality: params.quality,
-    }),
-  });
+/**
+ * Output price per image for one model as quality by size rows, generated from
+ * its pricing table so the landing and cost pages always match what is
+ * charged. The first row is the header.
+ */
+function getModelPriceRows(model: ImageModel): string[][] {
+  const provider = getProvider(model);
+  return [
+    ["Quality", ...provider.sizes],
+    ...provider.qualities.map((quality) => [
+      quality,
+      ...provider.sizes.map((size) =>
+        formatDollars(getOutputCostInDollars(model, quality, size) ?? 0)
+      ),
+    ]),
+  ];
+}
 
-  if (!response.ok) {
-    const errorData = await response.text();
-    throw new Error(`OpenAI API Error: ${errorData}`);
-  }
+function getModelTokenRates(model: ImageModel): string {
+  const { pricing } = getProvider(model);
+  return pricing.TEXT_INPUT_PER_1M > 0
+    ? `Tokens per 1M: text input ${formatDollars(
+        pricing.TEXT_INPUT_PER_1M
+      )} (cached ${formatDollars(
+        pricing.TEXT_INPUT_CACHED_PER_1M
+      )}), image input ${formatDollars(
+        pricing.IMAGE_INPUT_PER_1M
+      )} (cached ${formatDollars(
+        pricing.IMAGE_INPUT_CACHED_PER_1M
+      )}), image output ${formatDollars(pricing.IMAGE_OUTPUT_PER_1M)}`
+    : "Billed per image only, with no token charges";
+}
 
-  const imageData = (await response.json()) as OpenAIImageResponse;
-  const firstImage = imageData.data[0];
+function getModelSummary(model: ImageModel): string {
+  const provider = getProvider(model);
+  return `${model} (${provider.vendor}, up to ${
+    provider.maxImages
+  } per request, ${provider.formats.join("/")})`;
+}
 
-  if (firstImage.b64_json) {
-    const base64Data = firstImage.b64_json.replace(
-      /^data:image\/[a-z]+;base64,/,
-      ""
-    );
-    const binaryString = atob(base64Data);
-    const bytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes.buffer;
-  } else if (firstImage.url) {
-    const imageResponse = await fetch(firstImage.url);
-    if (!imageResponse.ok) {
-      throw new Error(`Failed to fetch image: ${imageResponse.status}`);
-    }
-    return await imageResponse.arrayBuffer();
-  }
+/** Plain text price list for one model. */
+function formatModelPricing(model: ImageModel): string {
+  const rows = getModelPriceRows(model);
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(" | ")} |`;
+  const table = [
+    formatRow(rows[0]),
+    `|${widths.map((width) => "-".repeat(width + 2)).join("|")}|`,
+    ...rows.slice(1).map(formatRow),
+  ].join("\n");
+
+  return `## ${getModelSummary(model)}:
+
+Output per image:
+
+${table}
 
-  throw new Error("No image data found in response");
+${getModelTokenRates(model)}`;
 }
 
-// =============================================================================
-// RESPONSE HANDLERS
-// =============================================================================
+function renderModelPricingHtml(model: ImageModel): string {
+  return `<h3>${escapeHtml(getModelSummary(model))}</h3>
+${renderHtmlTable(getModelPriceRows(model))}
+<p>${escapeHtml(getModelTokenRates(model))}</p>`;
+}
 
-function createLandingPageResponse(user: StripeUser): Response {
-  const landingPage = `Welcome to image.brubslabs.com!
+/** Prices for one model in dollars before the fee, keyed by quality and size. */
+function getModelPricingPayload(model: ImageModel): Record<string, unknown> {
+  const provider = getProvider(model);
+  const { pricing } = provider;
+  return {
+    model,
+    vendor: provider.vendor,
+    maxImages: provider.maxImages,
+    formats: provider.formats,
+    backgrounds: provider.backgrounds,
+    defaults: provider.defaults,
+    outputCostPerImage: Object.fromEntries(
+      provider.qualities.map((quality) => [
+        quality,
+        Object.fromEntries(
+          provider.sizes.map((size) => [
+            size,
+            getOutputCostInDollars(model, quality, size),
+          ])
+        ),
+      ])
+    ),
+    tokenCostPer1M: {
+      textInput: pricing.TEXT_INPUT_PER_1M,
+      textInputCached: pricing.TEXT_INPUT_CACHED_PER_1M,
+      imageInput: pricing.IMAGE_INPUT_PER_1M,
+      imageInputCached: pricing.IMAGE_INPUT_CACHED_PER_1M,
+      imageOutput: pricing.IMAGE_OUTPUT_PER_1M,
+    },
+  };
+}
+
+function getPricingPayload(): Record<string, unknown> {
+  return {
+    feePercentage: getFeePercentage(),
+    minimumCharge: formatCents(PRICING.MINIMUM_CHARGE_CENTS),
+    defaultModel: PRICING.DEFAULT_MODEL,
+    models: IMAGE_MODELS.map(getModelPricingPayload),
+  };
+}
 
-Your Balance: $${(user.balance / 100).toFixed(2)}
+function getLandingPageText(user: StripeUser): string {
+  return `Welcome to image.brubslabs.com!
+
+Your Balance: ${formatCents(user.balance)}
 Your Access Token: ${user.access_token}
 
 # Use the following format to generate images:
@@ -341,11 +388,90 @@ https://image.brubslabs.com/image/prompt[/size][/quality]
 - size: 1024x1024 (default), 1024x1536, 1536x1024
 - quality: low (default), medium, high, auto
 
+Sizes and qualities above are for ${PRICING.DEFAULT_MODEL}; other models accept
+the ones listed in their pricing below.
+
+Optional query parameters (pricing is the same for every format):
+
+- model: ${IMAGE_MODELS.join(", ")} (default ${PRICING.DEFAULT_MODEL})
+- n: number of images, up to the model's limit (default 1). Each image is
+  charged and stored separately; see Batches below
+- format: png (default), jpeg, webp
+- compression: 0-100, jpeg and webp only
+- background: auto (default), transparent (png and webp only), opaque
+- source: an https image URL or the R2 key of a generated image (e.g.
+  /image/cat/1024x1024/low.png) to make a variation of it. The source is billed
+  as input image tokens for its dimensions, shown in /cost's Image Input line
+- visibility: public (default) or private. Private images are only served to
+  you or through the expiring signed URL returned in the X-Signed-Url header
+
 Examples:
 
 - /image/cat
 - /image/cat/1024x1024  
 - /image/cat/1024x1024/high
+- /image/cat/1024x1024/high?format=webp&compression=80&background=transparent
+- /image/cat/1792x1024/hd?model=dall-e-3
+
+# Resizing:
+
+Add width and/or height (1-2048 pixels) to the URL of a PNG image that was
+already generated, including signed URLs, to get a resized copy free of
+charge. It is made once and stored next to the original.
+
+- fit: contain (default, fits inside the box), cover (fills the box and crops
+  the overflow) or fill (stretches to the box). Only used with both dimensions
+- A missing width or height keeps the original's aspect ratio
+
+Example: /image/cat/1024x1024/low?width=256&height=256&fit=cover
+
+# Batches:
+
+With n above 1 the images are generated together, charged n times the
+per-image price, and returned as:
+
+- bundle=json: a JSON list of image URLs (default)
+- bundle=sheet: an HTML contact sheet (default for browsers)
+- bundle=zip: a ZIP of the images (default for "Accept: application/zip")
+
+Repeating the same batch request serves the stored images without charging.
+Batches cannot be streamed.
+
+Example: /image/cat/1024x1024/low?n=4&bundle=zip
+
+# Streaming:
+
+Request an image with "Accept: text/event-stream" (as EventSource does) to
+receive server-sent events instead of the image:
+
+- partial_image: {"index", "b64_json"} previews while it generates
+- completed: {"url", "contentType", "estimatedCost", "charged", "b64_json"}
+- error: {"status", "error"}
+
+Use ?partial_images=0-3 to choose how many previews to send (default 2).
+Billing and caching are the same as for normal requests.
+
+# Retries:
+
+Send an Idempotency-Key header (up to ${
+    IDEMPOTENCY.maxKeyLength
+  } characters) with image, edit, job
+and /v1/images/generations requests. The first result, image or error, is
+replayed for ${
+    IDEMPOTENCY.retentionSeconds / 3600
+  } hours to retries with the same key, with an Idempotent-Replayed: true
+header, and is never charged twice. Payment and limit errors are not stored,
+so they can be retried with the same key. Streams are not replayed.
+
+# Quotes:
+
+When you are signed in, /cost/prompt[/size][/quality] also returns a signed
+quote (in the response and the X-Quote header) valid for ${
+    QUOTE_EXPIRY_SECONDS / 60
+  } minutes. Add it
+to the image URL as ?quote= and you are charged exactly the quoted price. The
+quote only works for you and for that exact image, and the request is refused
+without charging if your balance does not cover it.
 
 # Access Token Usage:
 
@@ -355,123 +481,514 @@ curl -X GET \\
 
 Note: Add URL-encode spaces in the prompt (e.g., '%20' for spaces)
 
+# Response formats:
+
+This page, /cost and error responses follow your Accept header:
+application/json, text/html (with a prompt form) or text/plain. Without a
+preference, pages are plain text and errors are JSON.
+
 # Pricing:
 
 Cost includes: (input text tokens + input image tokens + output image tokens) * fee percentage
 
-Fee percentage: ${Math.ceil(
-    (PRICING.FEE_PERCENTAGE_PER_IMAGE - 1) * 100
-  )}% of total cost
+Fee percentage: ${getFeePercentage()}% of total cost
+Charges are rounded up to the nearest cent, with a minimum of ${formatCents(
+    PRICING.MINIMUM_CHARGE_CENTS
+  )} per request
 
-## Output tokens:
+${IMAGE_MODELS.map(formatModelPricing).join("\n\n")}
 
-| Quality | Square (1024x1024) | Portrait (1024x1536) | Landscape (1536x1024) |
-|---------|--------------------|----------------------|-----------------------|
-| Low     | $0.011             | $0.016               | $0.016                |
-| Medium  | $0.042             | $0.063               | $0.063                |
-| High    | $0.167             | $0.25                | $0.25                 |
+# Editing images:
 
-## Input tokens (per 1M tokens):
+POST https://image.brubslabs.com/edit (multipart/form-data)
 
-| Type                         | Input  | Cached input | Output               |
-|------------------------------|--------|--------------|----------------------|
-| Text tokens                  | $5.00  | $1.25        | -                    |
-| Image tokens (comming soon)  | $10.00 | $2.50        | $40.00               |`;
+- prompt: edit instructions (required)
+- image: one or more source images, PNG, JPEG or WebP (required, up to ${
+    IMAGE_REQUEST_SCHEMA.images.max
+  })
+- mask: PNG whose transparent areas mark where to edit (optional)
+- size, quality, format, compression, background, visibility: same as above
 
-  return new Response(landingPage, {
-    headers: {
-      "Content-Type": "text/plain",
-      ...CORS_HEADERS,
+Source images are billed as input image tokens based on their dimensions.
+
+curl -X POST \\
+  -H "Cookie: access_token=your-access-token" \\
+  -F "prompt=add a party hat" \\
+  -F "image=@cat.png" \\
+  "https://image.brubslabs.com/edit"
+
+# Asynchronous jobs:
+
+Slow generations can run in the background instead of holding a connection:
+
+curl -X POST \\
+  -H "Cookie: access_token=your-access-token" \\
+  -H "Content-Type: application/json" \\
+  -d '{"prompt": "cat", "size": "1536x1024", "quality": "high", "callback_url": "https://example.com/hook"}' \\
+  "https://image.brubslabs.com/jobs"
+
+- The body takes prompt, size, quality, format, compression, background,
+  visibility and an optional https callback_url
+- The estimate is charged when the job is accepted; poll GET /jobs/{id} for
+  its status. Once the job has finished, your next request settles the charge
+  against actual usage, or refunds it if the job failed
+- callback_url receives a POST with the job status when it finishes. The
+  response to a job with a callback_url includes a webhookSecret, returned
+  only once: keep it to verify each delivery
+- Deliveries are signed in the X-Signature header as
+  t={timestamp},v1={signature}. To verify one, compute the hex HMAC-SHA256 of
+  "{timestamp}.{raw body}" keyed with the webhookSecret, compare it with v1 in
+  constant time, and reject timestamps more than a few minutes old
+
+# OpenAI-compatible API:
+
+POST https://image.brubslabs.com/v1/images/generations works as a drop-in
+replacement for OpenAI's endpoint. Use your access token as the API key:
+
+curl -X POST \\
+  -H "Authorization: Bearer your-access-token" \\
+  -H "Content-Type: application/json" \\
+  -d '{"model": "gpt-image-1", "prompt": "cat", "n": 2, "size": "1024x1024"}' \\
+  "https://image.brubslabs.com/v1/images/generations"
+
+- Accepts model, prompt, n (up to the model's limit), size, quality,
+  output_format, output_compression, background and response_format
+  (b64_json or url)
+- Every request generates new images and is charged for all n of them
+- Errors use OpenAI's {"error": {...}} format
+
+# Limits:
+
+Generations are limited per account to protect your balance if your access
+token leaks. Requests over a limit get a 429 with Retry-After and resetAt.
+
+- GET /limits: your limits and current usage with reset times
+- POST /limits with JSON to change them, e.g.
+  {"requests_per_minute": 30, "daily_spend_limit_cents": 500, "monthly_spend_limit_cents": null}
+
+Defaults are ${
+    LIMITS.defaults.requestsPerMinute
+  } requests per minute, ${formatCents(
+    LIMITS.defaults.dailySpendInCents
+  )} per day and ${formatCents(
+    LIMITS.defaults.monthlySpendInCents
+  )} per month (UTC). A spend limit of null removes it.
+
+# Content policy:
+
+Prompts are moderated before anything is charged. A rejected prompt gets a
+400 with code content_policy_violation and the flagged categories, costs
+nothing, and is logged against your account. While moderation is unavailable
+prompts get a 503 with code moderation_unavailable, also free of charge.
+
+# History:
+
+- GET /history[?limit=20&cursor=...]: your past generations, newest first
+- DELETE /history/{id}: remove an entry from your history
+
+# Provenance:
+
+Generated images carry a signed record of their prompt, model, size, quality
+and generation time: PNG text chunks, or XMP in JPEG and WebP. Check whether
+an image came from this service unaltered, free of charge:
+
+curl -X POST \\
+  -F "image=@cat.png" \\
+  "https://image.brubslabs.com/verify"
+
+The result is verified, altered, invalid_signature or unsigned (no record,
+e.g. when the metadata was stripped).`;
+}
+
+/**
+ * Prompt form for the HTML pages. It builds the path API URL in the browser,
+ * offering only the sizes, qualities and formats of the selected model.
+ */
+function renderImageFormHtml(prompt: string = ""): string {
+  const models = Object.fromEntries(
+    IMAGE_MODELS.map((model) => {
+      const provider = getProvider(model);
+      return [
+        model,
+        {
+          sizes: provider.sizes,
+          qualities: provider.qualities,
+          formats: provider.formats,
+          defaults: provider.defaults,
+        },
+      ];
+    })
+  );
+
+  return `<form id="image-form">
+<label>Prompt <textarea name="prompt" required>${escapeHtml(
+    prompt
+  )}</textarea></label>
+<label>Model <select name="model">${IMAGE_MODELS.map(
+    (model) =>
+      `<option${
+        model === PRICING.DEFAULT_MODEL ? " selected" : ""
+      }>${escapeHtml(model)}</option>`
+  ).join("")}</select></label>
+<label>Size <select name="size"></select></label>
+<label>Quality <select name="quality"></select></label>
+<label>Format <select name="format"></select></label>
+<div><button type="submit" value="cost">Check price</button> <button type="submit" value="image">Generate</button></div>
+</form>
+<script>
+const models = ${JSON.stringify(models)};
+const form = document.getElementById("image-form");
+const fill = (select, values, selected) => {
+  select.replaceChildren(...values.map((value) => new Option(value, value, false, value === selected)));
+};
+const update = () => {
+  const model = models[form.model.value];
+  fill(form.size, model.sizes, model.defaults.size);
+  fill(form.quality, model.qualities, model.defaults.quality);
+  fill(form.format, model.formats, model.formats[0]);
+};
+form.model.addEventListener("change", update);
+update();
+form.addEventListener("submit", (event) => {
+  event.preventDefault();
+  const route = event.submitter && event.submitter.value === "image" ? "image" : "cost";
+  const query = new URLSearchParams();
+  if (form.model.value !== ${JSON.stringify(
+    PRICING.DEFAULT_MODEL
+  )}) query.set("model", form.model.value);
+  if (form.format.value !== "png") query.set("format", form.format.value);
+  const search = query.toString();
+  location.href = "/" + route + "/" + encodeURIComponent(form.prompt.value) + "/" + form.size.value + "/" + form.quality.value + (search ? "?" + search : "");
+});
+</script>`;
+}
+
+function createLandingPageResponse(
+  request: Request,
+  user: StripeUser
+): Response {
+  return createNegotiatedResponse(
+    request,
+    "text",
+    {
+      json: () => ({
+        balance: formatCents(user.balance),
+        balanceInCents: user.balance,
+        accessToken: user.access_token,
+        usage:
+          "/image/prompt[/size][/quality] or /cost/prompt[/size][/quality]",
+        pricing: getPricingPayload(),
+      }),
+      html: () =>
+        renderHtmlPage(
+          "image.brubslabs.com",
+          `<h1>Welcome to image.brubslabs.com!</h1>
+<p>Your balance: <strong>${escapeHtml(formatCents(user.balance))}</strong></p>
+<p>Your access token: <code>${escapeHtml(user.access_token)}</code></p>
+<h2>Generate an image</h2>
+${renderImageFormHtml()}
+<h2>Pricing</h2>
+<p>Prices per image before the ${getFeePercentage()}% fee. Charges are rounded up to the nearest cent, with a minimum of ${escapeHtml(
+            formatCents(PRICING.MINIMUM_CHARGE_CENTS)
+          )} per request.</p>
+${IMAGE_MODELS.map(renderModelPricingHtml).join("\n")}
+<h2>API reference</h2>
+<pre>${escapeHtml(getLandingPageText(user))}</pre>`
+        ),
+      text: () => getLandingPageText(user),
     },
-    status: 400,
-  });
+    { headers: CORS_HEADERS }
+  );
 }
 
-function createCostResponse(url: URL, params: ImageParams, ctx: any): Response {
-  const costBreakdown = calculateImageGenerationCost(params);
+function createCostResponse(
+  request: Request,
+  params: ImageRequest,
+  costBreakdown: ImageCostBreakdown,
+  source: string | null,
+  ctx: any,
+  quote: { token: string; expires: number } | null
+): Response {
+  const url = new URL(request.url);
+  const baseUrl = `${url.origin}/image/${encodeURIComponent(params.prompt)}/${
+    params.size
+  }/${params.quality}${getOutputQuery(params, params.n)}`;
+  const generationUrl =
+    source !== null ? appendQueryParam(baseUrl, SOURCE_PARAM, source) : baseUrl;
+  const quotedUrl = quote
+    ? appendQueryParam(generationUrl, QUOTE_PARAM, quote.token)
+    : null;
+
+  const quoteExpiresAt = quote
+    ? new Date(quote.expires * 1000).toISOString()
+    : null;
+  const canAfford =
+    ctx.registered && ctx.user.balance >= costBreakdown.totalCostInCents;
 
   const costText = `Image Generation Cost Estimate
 
 Prompt: ${params.prompt}
+Model: ${params.model}
 Size: ${params.size}
 Quality: ${params.quality}
+Images: ${params.n}${source !== null ? `\nSource: ${source}` : ""}
+Format: ${params.outputFormat}${
+    params.outputCompression !== null
+      ? ` (compression ${params.outputCompression})`
+      : ""
+  }
+Background: ${params.background}
 
 # Cost Breakdown:
 
 Text Input: ${costBreakdown.breakdown.textInput}
 Image Input: ${costBreakdown.breakdown.imageInput}
 Image Output: ${costBreakdown.breakdown.imageOutput}
-Fee Percentage: ${Math.ceil((PRICING.FEE_PERCENTAGE_PER_IMAGE - 1) * 100)}%
+Fee: ${costBreakdown.breakdown.fee}
 
 Total Cost: ${costBreakdown.breakdown.total}
 
+This estimate is held when you generate. The final charge is settled against
+the tokens the provider actually bills and returned in the X-Cost-Charged
+header.
+
 # Generation URL:
 
-${url.origin}/image/${encodeURIComponent(params.prompt)}/${params.size}/${
-    params.quality
-  }
+${generationUrl}
 
 ${
-  ctx.registered
-    ? `# Your Account:
+  quote && quotedUrl
+    ? `# Your Quote:
 
-Current Balance: $${(ctx.user.balance / 100).toFixed(2)}
-Can Afford: ${
-        ctx.user.balance >= costBreakdown.totalCostInDollars ? "Yes" : "No"
-      }
-Balance After Generation: $${(
-        (ctx.user.balance - costBreakdown.totalCostInDollars) /
-        100
-      ).toFixed(2)}`
-    : `# Payment Required:
+Price: ${costBreakdown.breakdown.total}
+Expires: ${quoteExpiresAt}
+Quote: ${quote.token}
+
+Generate through the quoted URL below and you are charged exactly this price,
+whatever the provider bills:
+
+${quotedUrl}
+
+`
+    : ""
+}${
+    ctx.registered
+      ? `# Your Account:
+
+Current Balance: ${formatCents(ctx.user.balance)}
+Can Afford: ${canAfford ? "Yes" : "No"}
+Balance After Generation: ${formatCents(
+          ctx.user.balance - costBreakdown.totalCostInCents
+        )}`
+      : `# Payment Required:
 
 You are not registered. Visit the payment link below to add balance:
 ${ctx.paymentLink}`
-}
+  }
 
 To generate this image, visit the generation URL above.
-Cost: ${costBreakdown.breakdown.total}`;
+Cost: ${costBreakdown.breakdown.total}
+
+# Model Prices:
+
+Pick another model with ?model=. Prices before the ${getFeePercentage()}% fee:
+
+${IMAGE_MODELS.map(formatModelPricing).join("\n\n")}`;
+
+  const detailRows = [
+    ["Prompt", params.prompt],
+    ["Model", params.model],
+    ["Size", params.size],
+    ["Quality", params.quality],
+    ["Images", String(params.n)],
+    ...(source !== null ? [["Source", source]] : []),
+    [
+      "Format",
+      `${params.outputFormat}${
+        params.outputCompression !== null
+          ? ` (compression ${params.outputCompression})`
+          : ""
+      }`,
+    ],
+    ["Background", params.background],
+  ];
+  const breakdownRows = [
+    ["Text input", costBreakdown.breakdown.textInput],
+    ["Image input", costBreakdown.breakdown.imageInput],
+    ["Image output", costBreakdown.breakdown.imageOutput],
+    ["Fee", costBreakdown.breakdown.fee],
+    ["Total", costBreakdown.breakdown.total],
+  ];
+
+  return createNegotiatedResponse(
+    request,
+    "text",
+    {
+      json: () => ({
+        prompt: params.prompt,
+        model: params.model,
+        size: params.size,
+        quality: params.quality,
+        n: params.n,
+        source,
+        format: params.outputFormat,
+        compression: params.outputCompression,
+        background: params.background,
+        cost: costBreakdown,
+        generationUrl,
+        quote: quote && {
+          token: quote.token,
+          expiresAt: quoteExpiresAt,
+          url: quotedUrl,
+        },
+        account: ctx.registered
+          ? {
+              balance: formatCents(ctx.user.balance),
+              balanceInCents: ctx.user.balance,
+              canAfford,
+              balanceAfterGeneration: formatCents(
+                ctx.user.balance - costBreakdown.totalCostInCents
+              ),
+            }
+          : null,
+        paymentLink: ctx.registered ? null : ctx.paymentLink,
+      }),
+      html: () =>
+        renderHtmlPage(
+          "Image Generation Cost Estimate",
+          `<h1>Image Generation Cost Estimate</h1>
+${renderHtmlTable([["Setting", "Value"], ...detailRows])}
+<h2>Cost breakdown</h2>
+${renderHtmlTable([["Item", "Cost"], ...breakdownRows])}
+<p>This estimate is held when you generate. The final charge is settled against the tokens the provider actually bills.</p>
+<p><a href="${escapeHtml(generationUrl)}">Generate for about ${escapeHtml(
+            costBreakdown.breakdown.total
+          )}</a></p>
+${
+  quote && quotedUrl
+    ? `<h2>Your quote</h2>
+<p>Valid until ${escapeHtml(quoteExpiresAt ?? "")}.</p>
+<p><a href="${escapeHtml(quotedUrl)}">Generate for exactly ${escapeHtml(
+        costBreakdown.breakdown.total
+      )}</a></p>`
+    : ""
+}
+${
+  ctx.registered
+    ? `<h2>Your account</h2>
+<p>Balance: ${escapeHtml(formatCents(ctx.user.balance))}, ${
+        canAfford ? "enough" : "not enough"
+      } for this image.</p>`
+    : `<h2>Payment required</h2>
+<p>You are not registered. <a href="${escapeHtml(
+        ctx.paymentLink
+      )}">Add balance</a> to generate images.</p>`
+}
+<h2>Try another prompt</h2>
+${renderImageFormHtml(params.prompt)}
+<h2>Model prices</h2>
+<p>Prices per image before the ${getFeePercentage()}% fee.</p>
+${IMAGE_MODELS.map(renderModelPricingHtml).join("\n")}`
+        ),
+      text: () => costText,
+    },
+    {
+      headers: {
+        ...CORS_HEADERS,
+        ...(quote && {
+          "X-Quote": quote.token,
+          "X-Quote-Expires": quoteExpiresAt ?? "",
+        }),
+      },
+    }
+  );
+}
 
-  return new Response(costText, {
+/**
+ * Streams a generation as server-sent events: `partial_image` previews, then
+ * `completed` with the final image and its URL, or `error`. The generation
+ * goes through `serveOrGenerate`, so billing, coalescing and R2 caching are
+ * the same as for the image route.
+ */
+function createImageStreamResponse(
+  request: Request,
+  env: ExtendedEnv,
+  ctx: any,
+  generation: ChargedGeneration,
+  partialImages: number
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  // A disconnected client must not fail, and so refund, the generation
+  const sendEvent = (event: string, data: unknown) =>
+    writer
+      .write(
+        encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      )
+      .catch(() => {});
+
+  const stream = async () => {
+    try {
+      const response = await serveOrGenerate(request, env, ctx, {
+        ...generation,
+        paymentRequired: () =>
+          new Response(`Payment required. Add balance at ${ctx.paymentLink}`, {
+            status: 402,
+          }),
+        generate: () =>
+          streamImage(env, generation.params, partialImages, (buffer, index) =>
+            sendEvent("partial_image", {
+              index,
+              b64_json: encodeBase64(buffer),
+            })
+          ),
+      });
+
+      if (!response.ok) {
+        await sendEvent("error", {
+          status: response.status,
+          error: await response.text(),
+        });
+        return;
+      }
+
+      await sendEvent("completed", {
+        url:
+          response.headers.get("X-Signed-Url") ??
+          getPublicUrl(env, generation.filename),
+        contentType: response.headers.get("Content-Type"),
+        estimatedCost: response.headers.get("X-Cost-Estimated"),
+        charged: response.headers.get("X-Cost-Charged") ?? formatCents(0),
+        b64_json: encodeBase64(await response.arrayBuffer()),
+      });
+    } catch (error) {
+      console.error("Stream Error:", error);
+      await sendEvent("error", {
+        status: 500,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      await writer.close().catch(() => {});
+    }
+  };
+  stream();
+
+  return new Response(readable, {
     headers: {
-      "Content-Type": "text/plain",
+      "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache",
       ...CORS_HEADERS,
     },
   });
 }
 
-function createErrorResponse(message: string, status: number = 400): Response {
-  const body =
-    status === 405
-      ? message
-      : JSON.stringify(
-          {
-            error: message,
-            usage:
-              "Use: /cost/prompt[/size][/quality] or /image/prompt[/size][/quality]",
-            examples: [
-              "/cost/cat",
-              "/cost/cat/1024x1024",
-              "/cost/cat/1024x1024/high",
-              "/image/cat",
-              "/image/cat/1024x1024/high",
-            ],
-          },
-          null,
-          2
-        );
-
-  const headers =
-    status === 405
-      ? { Allow: "GET, OPTIONS", ...CORS_HEADERS }
-      : {
-          "Content-Type": "application/json",
-          "Cache-Control": "no-cache",
-          ...CORS_HEADERS,
-        };
-
-  return new Response(body, { status, headers });
+function createPaymentRedirectResponse(ctx: any): Response {
+  return new Response(null, {
+    status: 302,
+    headers: { Location: ctx.paymentLink },
+  });
 }
 
 // =============================================================================
@@ -488,10 +1005,66 @@ async function handleCostRequest(
   const pathParams = parseImagePath(imagePath);
 
   if (!pathParams) {
-    return createErrorResponse("Invalid cost path format");
+    return createErrorResponse(
+      request,
+      "Invalid cost path format",
+      400,
+      "invalid_path"
+    );
+  }
+
+  const validated = validateImageRequest({
+    ...pathParams,
+    ...getOutputOptions(url.searchParams),
+  });
+  if (!validated.ok) {
+    return createValidationErrorResponse(
+      request,
+      validated.error,
+      CORS_HEADERS
+    );
+  }
+
+  // Quotes are bound to the key the image request will use
+  const imageParams = withPlaceholderFormat(env, validated.value);
+
+  // Variations are priced with the source image as input tokens
+  let variation: Variation | null = null;
+  const source = url.searchParams.get(SOURCE_PARAM);
+  if (source !== null) {
+    const loaded = await loadVariation(env, ctx, imageParams, source);
+    if (!loaded.ok) {
+      return createValidationErrorResponse(request, loaded.error, CORS_HEADERS);
+    }
+    variation = loaded.value;
+  }
+  const costBreakdown = calculateImageGenerationCost({
+    ...imageParams,
+    inputImageTokens: variation?.inputImageTokens ?? 0,
+  });
+
+  // Registered users get a signed quote that /image/ honours as the price
+  let quote: { token: string; expires: number } | null = null;
+  if (ctx.registered) {
+    const created = await createQuote(
+      getSigningSecret(env),
+      await getUserId(ctx.user),
+      (
+        await getRequestKeys(imageParams, variation)
+      )[0],
+      costBreakdown.totalCostInCents
+    );
+    quote = { token: created.token, expires: created.quote.expires };
   }
 
-  return createCostResponse(url, pathParams, ctx);
+  return createCostResponse(
+    request,
+    imageParams,
+    costBreakdown,
+    source,
+    ctx,
+    quote
+  );
 }
 
 async function handleImageRequest(
@@ -500,58 +1073,202 @@ async function handleImageRequest(
   ctx: any
 ): Promise<Response> {
   const url = new URL(request.url);
-  const filename = url.pathname;
+  const canPay = ctx.registered && ctx.user.balance > 0;
+
+  // Parse image generation parameters
+  const pathParams = parseImagePath(url.pathname);
 
-  // Check for cached image first
-  const cachedImage = await getImageFromR2(env, filename);
-  if (cachedImage) {
-    return cachedImage;
+  if (!pathParams) {
+    return canPay
+      ? createLandingPageResponse(request, ctx.user)
+      : createPaymentRedirectResponse(ctx);
   }
 
-  // Check user authentication and balance
-  if (!ctx.registered || ctx.user.balance <= 0) {
-    return new Response(null, {
-      status: 302,
-      headers: { Location: ctx.paymentLink },
-    });
+  // Reject anything unpriced before charging
+  const validated = validateImageRequest({
+    ...pathParams,
+    ...getOutputOptions(url.searchParams),
+  });
+  if (!validated.ok) {
+    return createValidationErrorResponse(
+      request,
+      validated.error,
+      CORS_HEADERS
+    );
+  }
+  const imageParams = withPlaceholderFormat(env, validated.value);
+
+  const visibility = validateVisibility(url.searchParams.get("visibility"));
+  if (!visibility.ok) {
+    return createValidationErrorResponse(
+      request,
+      visibility.error,
+      CORS_HEADERS
+    );
   }
 
-  // Parse image generation parameters
-  const pathParams = parseImagePath(url.pathname);
+  const resize = validateResize(url.searchParams);
+  if (!resize.ok) {
+    return createValidationErrorResponse(request, resize.error, CORS_HEADERS);
+  }
 
-  if (!pathParams) {
-    return createLandingPageResponse(ctx.user);
+  // A variation generates from a reference image instead of the prompt alone
+  let variation: Variation | null = null;
+  const source = url.searchParams.get(SOURCE_PARAM);
+  if (source !== null) {
+    if (acceptsEventStream(request)) {
+      return createValidationErrorResponse(
+        request,
+        {
+          code: "invalid_source",
+          field: SOURCE_PARAM,
+          message: "Variations cannot be streamed",
+        },
+        CORS_HEADERS
+      );
+    }
+    const loaded = await loadVariation(env, ctx, imageParams, source);
+    if (!loaded.ok) {
+      return createValidationErrorResponse(request, loaded.error, CORS_HEADERS);
+    }
+    variation = loaded.value;
   }
 
-  // Calculate and charge for the image
-  const costBreakdown = calculateImageGenerationCost(pathParams);
-  const { charged, message } = await ctx.charge(
-    costBreakdown.totalCostInDollars,
-    false
-  );
+  // Each image of a batch is stored under its own key
+  let filenames = await getRequestKeys(imageParams, variation);
 
-  if (!charged) {
-    return new Response(`Payment failed: ${message}`, { status: 402 });
+  // A quote binds the price to the user and the image it was issued for
+  let quotedInCents: number | null = null;
+  const quoteToken = url.searchParams.get(QUOTE_PARAM);
+  if (quoteToken !== null) {
+    if (!ctx.registered) {
+      return createPaymentRedirectResponse(ctx);
+    }
+    const quote = await verifyQuote(
+      getSigningSecret(env),
+      quoteToken,
+      await getUserId(ctx.user),
+      filenames[0]
+    );
+    if (!quote.ok) {
+      return createValidationErrorResponse(request, quote.error, CORS_HEADERS);
+    }
+    quotedInCents = quote.value.priceInCents;
   }
 
-  // Generate the image
-  const imageBuffer = await generateImage(env, pathParams);
+  // Only the owner can request their private images
+  if (visibility.value === "private") {
+    if (!ctx.registered) {
+      return createPaymentRedirectResponse(ctx);
+    }
+    const userId = await getUserId(ctx.user);
+    filenames = await Promise.all(
+      filenames.map((filename) => getPrivateKey(env, userId, filename))
+    );
+  }
 
-  // Save to R2 (don't wait for completion)
-  saveImageToR2(env, imageBuffer, filename, false).catch((error) => {
-    console.error("Failed to save to R2:", error);
-  });
+  // Resizing only reads stored images, so it is served before any billing
+  if (resize.value) {
+    if (filenames.length > 1) {
+      return createValidationErrorResponse(
+        request,
+        {
+          code: "invalid_resize",
+          field: "n",
+          message: "Only single images can be resized, use n=1",
+        },
+        CORS_HEADERS
+      );
+    }
+    const imageHeaders =
+      visibility.value === "private"
+        ? await getPrivateImageHeaders(
+            env,
+            url.origin,
+            getDerivativeKey(filenames[0], resize.value)
+          )
+        : {};
+    return await serveResizedImage(
+      request,
+      env,
+      filenames[0],
+      resize.value,
+      imageHeaders
+    );
+  }
 
-  // Return the image directly
-  return new Response(imageBuffer, {
-    status: 200,
-    headers: {
-      "Content-Type": "image/png",
-      "Content-Disposition": `inline; filename="${filename}"`,
-      "Cache-Control": "public, max-age=3600",
-      ...CORS_HEADERS,
-    },
-  });
+  const billing: BillableGeneration = {
+    route: "/image",
+    params: imageParams,
+    costBreakdown: calculateImageGenerationCost({
+      ...imageParams,
+      inputImageTokens: variation?.inputImageTokens ?? 0,
+    }),
+    quotedInCents,
+    paymentRequired: () => createPaymentRedirectResponse(ctx),
+  };
+
+  if (imageParams.n > 1) {
+    if (acceptsEventStream(request)) {
+      return createValidationErrorResponse(
+        request,
+        {
+          code: "invalid_n",
+          field: "n",
+          message: "Streaming returns a single image, use n=1",
+        },
+        CORS_HEADERS
+      );
+    }
+    const bundle = validateBundle(
+      url.searchParams.get("bundle"),
+      getDefaultBundle(request)
+    );
+    if (!bundle.ok) {
+      return createValidationErrorResponse(request, bundle.error, CORS_HEADERS);
+    }
+    return await serveOrGenerateBatch(request, env, ctx, {
+      ...billing,
+      origin: url.origin,
+      filenames,
+      visibility: visibility.value,
+      bundle: bundle.value,
+      generate: () => generateImages(env, imageParams, imageParams.n),
+    });
+  }
+
+  const generation: ChargedGeneration = {
+    ...billing,
+    origin: url.origin,
+    filename: filenames[0],
+    visibility: visibility.value,
+    generate: variation
+      ? () => editImage(env, variation.params)
+      : () => generateImage(env, imageParams),
+  };
+
+  // EventSource clients get partial previews as server-sent events
+  if (acceptsEventStream(request)) {
+    const partialImages = validatePartialImages(
+      url.searchParams.get("partial_images")
+    );
+    if (!partialImages.ok) {
+      return createValidationErrorResponse(
+        request,
+        partialImages.error,
+        CORS_HEADERS
+      );
+    }
+    return createImageStreamResponse(
+      request,
+      env,
+      ctx,
+      generation,
+      partialImages.value
+    );
+  }
+
+  return await serveOrGenerate(request, env, ctx, generation);
 }
 
 // =============================================================================
@@ -570,27 +1287,102 @@ export default {
         });
       }
 
-      // Only handle GET requests
-      if (request.method !== "GET") {
-        return createErrorResponse("Method Not Allowed", 405);
+      const url = new URL(request.url);
+
+      // Image edits
+      if (request.method === "POST" && url.pathname === "/edit") {
+        return await handleIdempotently(request, extendedEnv, ctx, () =>
+          handleEditRequest(request, extendedEnv, ctx)
+        );
       }
 
-      const url = new URL(request.url);
+      // Drop-in replacement for OpenAI's image generation API
+      if (
+        request.method === "POST" &&
+        url.pathname === IMAGES_GENERATIONS_PATH
+      ) {
+        return await handleIdempotently(request, extendedEnv, ctx, () =>
+          handleImagesGenerationsRequest(request, extendedEnv, ctx)
+        );
+      }
+
+      // Asynchronous jobs
+      if (request.method === "POST" && url.pathname === "/jobs") {
+        return await handleIdempotently(request, extendedEnv, ctx, () =>
+          handleJobCreateRequest(request, extendedEnv, ctx)
+        );
+      }
+      if (request.method === "GET" && url.pathname.startsWith("/jobs/")) {
+        return await handleJobStatusRequest(request, extendedEnv, ctx);
+      }
+
+      // Anyone can check an image for a provenance record
+      if (request.method === "POST" && url.pathname === "/verify") {
+        return await handleVerifyRequest(request, extendedEnv);
+      }
+
+      // Signed URLs grant temporary access to private images
+      if (
+        request.method === "GET" &&
+        url.pathname.startsWith(`${SIGNED_URL_PREFIX}/`)
+      ) {
+        return await handleSignedRequest(request, extendedEnv);
+      }
+
+      // Users can view and change their own rate and spend limits
+      if (
+        (request.method === "GET" || request.method === "POST") &&
+        url.pathname === "/limits"
+      ) {
+        return await handleLimitsRequest(request, extendedEnv, ctx);
+      }
+
+      // Users can list and delete their own history
+      if (
+        (request.method === "GET" || request.method === "DELETE") &&
+        /^\/history(\/|$)/.test(url.pathname)
+      ) {
+        return await handleHistoryRequest(request, extendedEnv, ctx);
+      }
+
+      // Operator reports, behind their own secret rather than a user's token
+      if (request.method === "GET" && /^\/admin(\/|$)/.test(url.pathname)) {
+        return await handleAdminRequest(request, extendedEnv);
+      }
+
+      // Everything else is GET only
+      if (request.method !== "GET") {
+        return createErrorResponse(request, "Method Not Allowed", 405);
+      }
 
       // Route requests
       if (url.pathname.startsWith("/cost")) {
         return await handleCostRequest(request, extendedEnv, ctx);
-      } else {
+      } else if (acceptsEventStream(request)) {
+        // Streams are not buffered, so they cannot be replayed
         return await handleImageRequest(request, extendedEnv, ctx);
+      } else {
+        return await handleIdempotently(request, extendedEnv, ctx, () =>
+          handleImageRequest(request, extendedEnv, ctx)
+        );
       }
     } catch (error) {
       console.error("Worker Error:", error);
       return createErrorResponse(
+        request,
         `Internal server error: ${
           error instanceof Error ? error.message : "Unknown error"
         }`,
-        500
+        500,
+        "internal_error"
       );
     }
   }),
+
+  async scheduled(
+    _controller: ScheduledController,
+    env: ExtendedEnv
+  ): Promise<void> {
+    await runCleanup(env);
+  },
 };
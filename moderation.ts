@@ -0,0 +1,295 @@
+import { ExtendedEnv } from "./env";
+import { createNegotiatedErrorResponse } from "./negotiation";
+import { isPlaceholderEnabled } from "./placeholder";
+import { CORS_HEADERS } from "./responses";
+import { recordStats } from "./stats";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ModerationMode = "openai" | "local" | "off";
+
+// "unavailable" is the moderation endpoint failing, not the prompt
+export type RejectionReason = "blocklist" | "moderation" | "unavailable";
+
+export type ModerationDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: RejectionReason;
+      categories: string[];
+      message: string;
+    };
+
+export interface RejectionRecord {
+  id: string;
+  route: string;
+  prompt: string;
+  reason: RejectionReason;
+  categories: string[];
+  createdAt: string;
+}
+
+interface OpenAIModerationResponse {
+  results: Array<{
+    flagged: boolean;
+    categories: Record<string, boolean>;
+  }>;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const MODERATION_PREFIX = "moderation/";
+
+const OPENAI_MODERATION_URL = "https://api.openai.com/v1/moderations";
+
+const OPENAI_MODERATION_MODEL = "omni-moderation-latest";
+
+// Moderation is a quick classification, unlike generation
+const MODERATION_TIMEOUT_MS = 10_000;
+
+// The local stand-in flags prompts marked like "a cat [flag:violence]"
+const LOCAL_FLAG_PATTERN = /\[flag:([a-z/_-]+)\]/gi;
+
+// Larger than any millisecond timestamp, so newer records sort first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Which check runs besides the blocklist. Development and placeholder setups
+ * use the local stand-in so they never call OpenAI.
+ */
+export function getModerationMode(env: ExtendedEnv): ModerationMode {
+  const mode = env.MODERATION?.toLowerCase();
+  if (mode === "openai" || mode === "local" || mode === "off") {
+    return mode;
+  }
+  return isPlaceholderEnabled(env) ? "local" : "openai";
+}
+
+function normalize(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+/** Blocked terms from `MODERATION_BLOCKLIST`, one per line or comma. */
+export function getBlocklist(env: ExtendedEnv): string[] {
+  return (env.MODERATION_BLOCKLIST || "")
+    .split(/[\n,]/)
+    .map((term) => normalize(term.trim()))
+    .filter((term) => term.length > 0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Terms only match whole words, so "ass" does not block "class". */
+function findBlockedTerm(prompt: string, blocklist: string[]): string | null {
+  const normalized = normalize(prompt);
+  return (
+    blocklist.find((term) =>
+      new RegExp(
+        `(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`,
+        "u"
+      ).test(normalized)
+    ) ?? null
+  );
+}
+
+function moderateLocally(prompt: string): string[] {
+  return [...prompt.matchAll(LOCAL_FLAG_PATTERN)].map((match) =>
+    match[1].toLowerCase()
+  );
+}
+
+/**
+ * Whether prompts are let through while the moderation endpoint is down.
+ * Off unless `MODERATION_FAIL_OPEN=true`, as the provider's own policy is
+ * then the only check.
+ */
+export function isModerationFailOpen(env: ExtendedEnv): boolean {
+  return env.MODERATION_FAIL_OPEN?.toLowerCase() === "true";
+}
+
+/**
+ * Returns the categories OpenAI flags, or null when the moderation endpoint
+ * could not be reached or answered with an error.
+ */
+async function moderateWithOpenAI(
+  env: ExtendedEnv,
+  prompt: string
+): Promise<string[] | null> {
+  try {
+    const response = await fetch(OPENAI_MODERATION_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${env.OPENAI_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model: OPENAI_MODERATION_MODEL, input: prompt }),
+      signal: AbortSignal.timeout(MODERATION_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Moderation API Error: ${await response.text()}`);
+    }
+
+    const { results } = (await response.json()) as OpenAIModerationResponse;
+    return results
+      .filter((result) => result.flagged)
+      .flatMap((result) =>
+        Object.entries(result.categories)
+          .filter(([, flagged]) => flagged)
+          .map(([category]) => category)
+      );
+  } catch (error) {
+    console.error("Moderation check failed:", error);
+    return null;
+  }
+}
+
+// =============================================================================
+// MODERATION
+// =============================================================================
+
+/**
+ * Checks a prompt against the operator's blocklist and then the moderation
+ * endpoint. Runs before anything is charged. Prompts are refused while the
+ * endpoint is unavailable, unless the operator opted to fail open.
+ */
+export async function checkPrompt(
+  env: ExtendedEnv,
+  prompt: string
+): Promise<ModerationDecision> {
+  const blockedTerm = findBlockedTerm(prompt, getBlocklist(env));
+  if (blockedTerm !== null) {
+    return {
+      allowed: false,
+      reason: "blocklist",
+      categories: [],
+      message:
+        "This prompt contains a term that is not allowed on this service",
+    };
+  }
+
+  const mode = getModerationMode(env);
+  if (mode === "off") {
+    return { allowed: true };
+  }
+
+  const categories =
+    mode === "local"
+      ? moderateLocally(prompt)
+      : await moderateWithOpenAI(env, prompt);
+  if (categories === null) {
+    return isModerationFailOpen(env)
+      ? { allowed: true }
+      : {
+          allowed: false,
+          reason: "unavailable",
+          categories: [],
+          message:
+            "Prompts cannot be checked right now, so none are accepted. Please try again shortly",
+        };
+  }
+  if (categories.length > 0) {
+    return {
+      allowed: false,
+      reason: "moderation",
+      categories,
+      message: `This prompt was flagged by moderation for: ${categories.join(
+        ", "
+      )}`,
+    };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Records a rejected prompt against a user. Ids start with an inverted
+ * timestamp, as history entries do, so listings return the newest first.
+ */
+export async function recordRejection(
+  bucket: R2Bucket,
+  userId: string,
+  rejection: Omit<RejectionRecord, "id" | "createdAt">
+): Promise<RejectionRecord> {
+  const now = Date.now();
+  const invertedTimestamp = String(MAX_TIMESTAMP - now).padStart(13, "0");
+  const record: RejectionRecord = {
+    id: `${invertedTimestamp}-${crypto.randomUUID()}`,
+    ...rejection,
+    createdAt: new Date(now).toISOString(),
+  };
+
+  await bucket.put(
+    `${MODERATION_PREFIX}${userId}/${record.id}.json`,
+    JSON.stringify(record),
+    { httpMetadata: { contentType: "application/json" } }
+  );
+
+  return record;
+}
+
+/** The HTTP status and error code a refused prompt is answered with. */
+export function getRejectionStatus(
+  decision: Extract<ModerationDecision, { allowed: false }>
+): { status: number; code: string } {
+  return decision.reason === "unavailable"
+    ? { status: 503, code: "moderation_unavailable" }
+    : { status: 400, code: "content_policy_violation" };
+}
+
+/**
+ * Checks a prompt and records the attempt if it is rejected. Prompts refused
+ * only because moderation is unavailable are not held against the user.
+ */
+export async function moderatePrompt(
+  env: ExtendedEnv,
+  userId: string,
+  route: string,
+  prompt: string
+): Promise<ModerationDecision> {
+  const decision = await checkPrompt(env, prompt);
+  if (!decision.allowed && decision.reason !== "unavailable") {
+    recordStats(env, { type: "rejection" });
+    // Don't wait for completion
+    recordRejection(env.stripeimages, userId, {
+      route,
+      prompt,
+      reason: decision.reason,
+      categories: decision.categories,
+    }).catch((error) => {
+      console.error("Failed to record rejection:", error);
+    });
+  }
+  return decision;
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+export function createPolicyViolationResponse(
+  request: Request,
+  decision: Extract<ModerationDecision, { allowed: false }>
+): Response {
+  const { status, code } = getRejectionStatus(decision);
+  return createNegotiatedErrorResponse(
+    request,
+    status,
+    {
+      error: decision.message,
+      code,
+      reason: decision.reason,
+      categories: decision.categories,
+      message: "Nothing was charged for this request.",
+    },
+    CORS_HEADERS
+  );
+}
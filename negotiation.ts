@@ -0,0 +1,213 @@
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ContentType = "json" | "html" | "text";
+
+/** Builds each representation lazily, so only the negotiated one is rendered. */
+export interface Representations {
+  json: () => unknown;
+  html: () => string;
+  text: () => string;
+}
+
+/** The body of every error response; extra fields are shown as details. */
+export interface ErrorPayload {
+  error: string;
+  code: string;
+  [detail: string]: unknown;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const MEDIA_TYPES: Record<string, ContentType> = {
+  "application/json": "json",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/plain": "text",
+};
+
+const CONTENT_TYPE_HEADERS: Record<ContentType, string> = {
+  json: "application/json",
+  html: "text/html; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+};
+
+const PAGE_STYLE = `body{font-family:system-ui,sans-serif;max-width:60rem;margin:2rem auto;padding:0 1rem;line-height:1.5;color:#222}
+table{border-collapse:collapse;margin:1rem 0}th,td{border:1px solid #ccc;padding:.3rem .6rem;text-align:left}
+th{background:#f4f4f4}pre,code{background:#f4f4f4;border-radius:4px}pre{padding:1rem;overflow-x:auto}code{padding:0 .2rem;word-break:break-all}
+form{display:grid;gap:.6rem;max-width:36rem}textarea{min-height:4rem}.error{color:#b00020}`;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Picks the representation the client prefers from its Accept header, by
+ * quality and then order. Wildcards, a missing header, and clients that only
+ * accept something else (such as an <img> tag asking for images) get
+ * `fallback`, so existing clients see the same format as before.
+ */
+export function negotiateContentType(
+  request: Request,
+  fallback: ContentType
+): ContentType {
+  const accept = request.headers.get("Accept");
+  if (!accept) {
+    return fallback;
+  }
+
+  const ranges = accept
+    .split(",")
+    .map((range, index) => {
+      const [mediaType, ...params] = range.trim().toLowerCase().split(";");
+      const qParam = params.find((param) => param.trim().startsWith("q="));
+      const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+      return { mediaType: mediaType.trim(), q: Number.isNaN(q) ? 0 : q, index };
+    })
+    .filter((range) => range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { mediaType } of ranges) {
+    if (MEDIA_TYPES[mediaType]) {
+      return MEDIA_TYPES[mediaType];
+    }
+    if (mediaType === "*/*") {
+      return fallback;
+    }
+    if (mediaType === "text/*") {
+      return fallback === "json" ? "text" : fallback;
+    }
+    if (mediaType === "application/*") {
+      return "json";
+    }
+  }
+  return fallback;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Wraps trusted body markup in a complete page. `title` is escaped. */
+export function renderHtmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/** Renders rows of plain cells as an HTML table; the first row is the header. */
+export function renderHtmlTable(rows: string[][]): string {
+  const [header, ...body] = rows;
+  return `<table>
+<thead><tr>${header
+    .map((cell) => `<th>${escapeHtml(cell)}</th>`)
+    .join("")}</tr></thead>
+<tbody>
+${body
+  .map(
+    (row) =>
+      `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>`;
+}
+
+function formatDetail(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+export function createNegotiatedResponse(
+  request: Request,
+  fallback: ContentType,
+  representations: Representations,
+  init: { status?: number; headers?: Record<string, string> } = {}
+): Response {
+  const contentType = negotiateContentType(request, fallback);
+  const body =
+    contentType === "json"
+      ? JSON.stringify(representations.json(), null, 2)
+      : representations[contentType]();
+
+  return new Response(body, {
+    status: init.status ?? 200,
+    headers: {
+      "Content-Type": CONTENT_TYPE_HEADERS[contentType],
+      "Cache-Control": "no-cache",
+      Vary: "Accept",
+      ...init.headers,
+    },
+  });
+}
+
+/**
+ * Error responses are JSON unless the client asks for HTML or plain text, and
+ * carry the same message, code and details in every format.
+ */
+export function createNegotiatedErrorResponse(
+  request: Request,
+  status: number,
+  payload: ErrorPayload,
+  headers: Record<string, string> = {}
+): Response {
+  const { error, code, ...details } = payload;
+  const detailEntries = Object.entries(details).filter(
+    ([, value]) => value !== undefined
+  );
+
+  return createNegotiatedResponse(
+    request,
+    "json",
+    {
+      json: () => payload,
+      text: () =>
+        [
+          `Error ${status}: ${error}`,
+          `Code: ${code}`,
+          ...detailEntries.map(
+            ([name, value]) => `${name}: ${formatDetail(value)}`
+          ),
+        ].join("\n"),
+      html: () =>
+        renderHtmlPage(
+          `Error ${status}`,
+          `<h1>Error ${status}</h1>
+<p class="error">${escapeHtml(error)}</p>
+<table>
+<tr><th>code</th><td><code>${escapeHtml(code)}</code></td></tr>
+${detailEntries
+  .map(
+    ([name, value]) =>
+      `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(
+        formatDetail(value)
+      )}</td></tr>`
+  )
+  .join("\n")}
+</table>
+<p><a href="/">Back to the start page</a></p>`
+        ),
+    },
+    { status, headers }
+  );
+}
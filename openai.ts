@@ -0,0 +1,279 @@
+import { ExtendedEnv } from "./env";
+import { PRICING, ImageTokenUsage } from "./pricing";
+import {
+  EditParams,
+  GeneratedImage,
+  GeneratedImages,
+  ImageParams,
+  ImageProvider,
+  PartialImageHandler,
+} from "./providers";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface OpenAIImageResponse {
+  data: Array<{
+    url?: string;
+    b64_json?: string;
+  }>;
+  usage?: ImageTokenUsage;
+}
+
+interface OpenAIImageStreamEvent {
+  type: string;
+  b64_json?: string;
+  partial_image_index?: number;
+  usage?: ImageTokenUsage;
+  error?: { message?: string };
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const OPENAI_API_URL = "https://api.openai.com/v1/images";
+
+const GPT_IMAGE_1_PRICING = PRICING.MODELS["gpt-image-1"];
+
+const DALL_E_3_PRICING = PRICING.MODELS["dall-e-3"];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function getOpenAIHeaders(env: ExtendedEnv): Record<string, string> {
+  return {
+    Authorization: `Bearer ${env.OPENAI_API_KEY}`,
+    "User-Agent": "StripeImages/1.0",
+    Accept: "application/json",
+  };
+}
+
+function createJsonRequest(
+  env: ExtendedEnv,
+  endpoint: string,
+  body: Record<string, unknown>
+): Request {
+  return new Request(`${OPENAI_API_URL}/${endpoint}`, {
+    method: "POST",
+    headers: { ...getOpenAIHeaders(env), "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+function decodeBase64(b64Json: string): ArrayBuffer {
+  const base64Data = b64Json.replace(/^data:image\/[a-z]+;base64,/, "");
+  const binaryString = atob(base64Data);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+async function decodeImageResponse(
+  response: Response,
+  expected: number
+): Promise<GeneratedImages> {
+  const imageData = (await response.json()) as OpenAIImageResponse;
+  const images = imageData.data || [];
+  const usage = imageData.usage || null;
+
+  if (images.length < expected) {
+    throw new Error("No image data found in response");
+  }
+
+  const imageBuffers = await Promise.all(
+    images.slice(0, expected).map(async (image) => {
+      if (image.b64_json) {
+        return decodeBase64(image.b64_json);
+      } else if (image.url) {
+        const imageResponse = await fetch(image.url);
+        if (!imageResponse.ok) {
+          throw new Error(`Failed to fetch image: ${imageResponse.status}`);
+        }
+        return await imageResponse.arrayBuffer();
+      }
+
+      throw new Error("No image data found in response");
+    })
+  );
+
+  return { imageBuffers, usage };
+}
+
+/**
+ * Reads OpenAI's server-sent events, handing each partial image to
+ * `onPartialImage` as it arrives and resolving with the completed image.
+ */
+async function decodeImageStream(
+  response: Response,
+  onPartialImage: PartialImageHandler
+): Promise<GeneratedImage> {
+  if (!response.body) {
+    throw new Error("No image data found in response");
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffered += value.replace(/\r\n/g, "\n");
+
+    let boundary: number;
+    while ((boundary = buffered.indexOf("\n\n")) !== -1) {
+      const data = buffered
+        .slice(0, boundary)
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim())
+        .join("\n");
+      buffered = buffered.slice(boundary + 2);
+      if (!data || data === "[DONE]") {
+        continue;
+      }
+
+      const event = JSON.parse(data) as OpenAIImageStreamEvent;
+      if (event.type === "error") {
+        throw new Error(`OpenAI API Error: ${event.error?.message}`);
+      }
+      if (!event.b64_json) {
+        continue;
+      }
+      if (event.type === "image_generation.partial_image") {
+        await onPartialImage(
+          decodeBase64(event.b64_json),
+          event.partial_image_index ?? 0
+        );
+      } else if (event.type === "image_generation.completed") {
+        reader.cancel().catch(() => {});
+        return {
+          imageBuffer: decodeBase64(event.b64_json),
+          usage: event.usage || null,
+        };
+      }
+    }
+  }
+
+  throw new Error("Stream ended without a completed image");
+}
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+export const GPT_IMAGE_1_PROVIDER: ImageProvider = {
+  model: "gpt-image-1",
+  vendor: "OpenAI",
+  pricing: GPT_IMAGE_1_PRICING,
+  // Only combinations with a price can be requested
+  sizes: Object.keys(GPT_IMAGE_1_PRICING.OUTPUT_COSTS.low),
+  qualities: Object.keys(GPT_IMAGE_1_PRICING.OUTPUT_COSTS),
+  defaults: { size: "1024x1024", quality: "low" },
+  maxImages: 4,
+  formats: ["png", "jpeg", "webp"],
+  backgrounds: ["auto", "transparent", "opaque"],
+
+  buildGenerationRequest(env: ExtendedEnv, params: ImageParams, n: number) {
+    return createJsonRequest(env, "generations", {
+      model: "gpt-image-1",
+      prompt: params.prompt,
+      n,
+      size: params.size,
+      quality: params.quality,
+      output_format: params.outputFormat,
+      background: params.background,
+      ...(params.outputCompression !== null && {
+        output_compression: params.outputCompression,
+      }),
+    });
+  },
+
+  buildEditRequest(env: ExtendedEnv, params: EditParams) {
+    const body = new FormData();
+    body.append("model", "gpt-image-1");
+    body.append("prompt", params.prompt);
+    body.append("n", "1");
+    body.append("size", params.size);
+    body.append("quality", params.quality);
+    body.append("output_format", params.outputFormat);
+    body.append("background", params.background);
+    if (params.outputCompression !== null) {
+      body.append("output_compression", String(params.outputCompression));
+    }
+    for (const image of params.images) {
+      body.append("image[]", image, image.name);
+    }
+    if (params.mask) {
+      body.append("mask", params.mask, params.mask.name);
+    }
+
+    return new Request(`${OPENAI_API_URL}/edits`, {
+      method: "POST",
+      headers: getOpenAIHeaders(env),
+      body,
+    });
+  },
+
+  decodeResponse: decodeImageResponse,
+
+  streaming: {
+    maxPartialImages: 3,
+
+    buildRequest(env: ExtendedEnv, params: ImageParams, partialImages: number) {
+      return createJsonRequest(env, "generations", {
+        model: "gpt-image-1",
+        prompt: params.prompt,
+        size: params.size,
+        quality: params.quality,
+        output_format: params.outputFormat,
+        background: params.background,
+        ...(params.outputCompression !== null && {
+          output_compression: params.outputCompression,
+        }),
+        stream: true,
+        partial_images: partialImages,
+      });
+    },
+
+    decodeStream: decodeImageStream,
+  },
+};
+
+/**
+ * DALL-E 3 only returns PNGs, one per request, and reports no token usage, so
+ * its estimate is always the final charge.
+ */
+export const DALL_E_3_PROVIDER: ImageProvider = {
+  model: "dall-e-3",
+  vendor: "OpenAI",
+  pricing: DALL_E_3_PRICING,
+  sizes: Object.keys(DALL_E_3_PRICING.OUTPUT_COSTS.standard),
+  qualities: Object.keys(DALL_E_3_PRICING.OUTPUT_COSTS),
+  defaults: { size: "1024x1024", quality: "standard" },
+  maxImages: 1,
+  formats: ["png"],
+  backgrounds: ["auto"],
+
+  buildGenerationRequest(env: ExtendedEnv, params: ImageParams, n: number) {
+    return createJsonRequest(env, "generations", {
+      model: "dall-e-3",
+      prompt: params.prompt,
+      n,
+      size: params.size,
+      quality: params.quality,
+      response_format: "b64_json",
+    });
+  },
+
+  buildEditRequest: null,
+
+  decodeResponse: decodeImageResponse,
+
+  streaming: null,
+};
@@ -0,0 +1,112 @@
+import { ExtendedEnv } from "./env";
+import { encodePng } from "./png";
+import { GeneratedImages, ImageParams } from "./providers";
+import { OutputFormat } from "./schema";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// The prompt hash is drawn as a centred 8x4 grid of coloured cells
+const HASH_GRID = { columns: 8, rows: 4 } as const;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Placeholders replace every provider call when running locally, so the whole
+ * charge, generate, store and serve flow works without network access.
+ */
+export function isPlaceholderEnabled(env: ExtendedEnv): boolean {
+  return env.ENVIRONMENT === "development" || env.PLACEHOLDER_IMAGES === "true";
+}
+
+/**
+ * Placeholders are always PNGs, so requests are switched to PNG output while
+ * they are enabled. Otherwise PNG bytes would be stored and served under a
+ * JPEG or WebP key and content type.
+ */
+export function withPlaceholderFormat<
+  T extends { outputFormat: OutputFormat; outputCompression: number | null }
+>(env: ExtendedEnv, params: T): T {
+  return isPlaceholderEnabled(env)
+    ? { ...params, outputFormat: "png", outputCompression: null }
+    : params;
+}
+
+// =============================================================================
+// PLACEHOLDER IMAGES
+// =============================================================================
+
+/**
+ * Draws a diagonal gradient between two colours taken from the SHA-256 of the
+ * request, with the hash itself drawn as a grid of cells in the middle. The
+ * same prompt and options always produce the same image.
+ */
+async function createPlaceholderImage(
+  params: ImageParams,
+  index: number
+): Promise<ArrayBuffer> {
+  const [width, height] = params.size.split("x").map(Number);
+  const hash = new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(
+        JSON.stringify([params.model, params.prompt, params.quality, index])
+      )
+    )
+  );
+
+  const pixels = new Uint8Array(width * height * 3);
+  const cellSize = Math.floor(Math.min(width, height) / 16);
+  const gridLeft = Math.floor((width - HASH_GRID.columns * cellSize) / 2);
+  const gridTop = Math.floor((height - HASH_GRID.rows * cellSize) / 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 3;
+      const column = Math.floor((x - gridLeft) / cellSize);
+      const row = Math.floor((y - gridTop) / cellSize);
+
+      if (
+        x >= gridLeft &&
+        y >= gridTop &&
+        column < HASH_GRID.columns &&
+        row < HASH_GRID.rows
+      ) {
+        const byte = hash[row * HASH_GRID.columns + column];
+        pixels[offset] = byte;
+        pixels[offset + 1] = (byte * 7) & 0xff;
+        pixels[offset + 2] = 255 - byte;
+        continue;
+      }
+
+      const t = (x / width + y / height) / 2;
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[offset + channel] = Math.round(
+          hash[channel] * (1 - t) + hash[channel + 3] * t
+        );
+      }
+    }
+  }
+
+  return await encodePng(width, height, pixels);
+}
+
+/**
+ * Stands in for a provider response. Images are always PNGs, see
+ * `withPlaceholderFormat`, and no usage is reported, so the estimate is
+ * charged.
+ */
+export async function createPlaceholderImages(
+  params: ImageParams,
+  n: number
+): Promise<GeneratedImages> {
+  const imageBuffers = await Promise.all(
+    Array.from({ length: n }, (_, index) =>
+      createPlaceholderImage(params, index)
+    )
+  );
+  return { imageBuffers, usage: null };
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng, readPngChunks, writePngChunks } from "./png";
+
+interface Header {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace?: boolean;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** A PNG from raw scanlines, each starting with its filter type byte. */
+async function buildPng(
+  header: Header,
+  scanlines: number[],
+  chunks: Array<{ type: string; data: number[] }> = []
+): Promise<Uint8Array> {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, header.width);
+  view.setUint32(4, header.height);
+  ihdr[8] = header.bitDepth;
+  ihdr[9] = header.colorType;
+  ihdr[12] = header.interlace ? 1 : 0;
+  return writePngChunks([
+    { type: "IHDR", data: ihdr },
+    ...chunks.map(({ type, data }) => ({ type, data: new Uint8Array(data) })),
+    { type: "IDAT", data: await deflate(new Uint8Array(scanlines)) },
+    { type: "IEND", data: new Uint8Array(0) },
+  ]);
+}
+
+function rgba(pixels: Uint8Array): number[][] {
+  return Array.from({ length: pixels.length / 4 }, (_, index) => [
+    ...pixels.subarray(index * 4, index * 4 + 4),
+  ]);
+}
+
+describe("decodePng", () => {
+  it("reads back what encodePng wrote, with and without alpha", async () => {
+    const rgb = new Uint8Array([255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9]);
+    const opaque = await decodePng(new Uint8Array(await encodePng(2, 2, rgb)));
+    expect(opaque).toMatchObject({ width: 2, height: 2, hasAlpha: false });
+    expect(rgba(opaque!.pixels)).toEqual([
+      [255, 0, 0, 255],
+      [0, 255, 0, 255],
+      [0, 0, 255, 255],
+      [9, 9, 9, 255],
+    ]);
+
+    const pixels = new Uint8Array([1, 2, 3, 0, 4, 5, 6, 128]);
+    const translucent = await decodePng(
+      new Uint8Array(await encodePng(2, 1, pixels, true))
+    );
+    expect(translucent?.hasAlpha).toBe(true);
+    expect(translucent?.pixels).toEqual(pixels);
+  });
+
+  it("expands 1-bit grayscale", async () => {
+    const png = await buildPng(
+      { width: 10, height: 1, bitDepth: 1, colorType: 0 },
+      [0, 0b10110000, 0b01000000]
+    );
+    const decoded = await decodePng(png);
+    expect(rgba(decoded!.pixels).map(([gray]) => gray)).toEqual([
+      255, 0, 255, 255, 0, 0, 0, 0, 0, 255,
+    ]);
+  });
+
+  it("looks up palette colors and their transparency", async () => {
+    const png = await buildPng(
+      { width: 3, height: 1, bitDepth: 8, colorType: 3 },
+      [0, 0, 1, 2],
+      [
+        { type: "PLTE", data: [255, 0, 0, 0, 0, 255, 0, 255, 0] },
+        { type: "tRNS", data: [128, 0] },
+      ]
+    );
+    const decoded = await decodePng(png);
+    expect(decoded?.hasAlpha).toBe(true);
+    expect(rgba(decoded!.pixels)).toEqual([
+      [255, 0, 0, 128],
+      [0, 0, 255, 0],
+      [0, 255, 0, 255],
+    ]);
+  });
+
+  it("keeps the high byte of 16-bit samples", async () => {
+    const png = await buildPng(
+      { width: 1, height: 1, bitDepth: 16, colorType: 2 },
+      [0, 0x12, 0x34, 0xab, 0xcd, 0xff, 0x00]
+    );
+    const decoded = await decodePng(png);
+    expect(rgba(decoded!.pixels)).toEqual([[0x12, 0xab, 0xff, 255]]);
+  });
+
+  it("reverses every row filter", async () => {
+    // Two RGB pixels per row; each row's expected pixels are [10, 20, 30]
+    // and [40, 60, 80], plus 5 per row, encoded with a different filter
+    const rows = [0, 1, 2, 3, 4].map((row) => [
+      10 + row * 5,
+      20 + row * 5,
+      30 + row * 5,
+      40 + row * 5,
+      60 + row * 5,
+      80 + row * 5,
+    ]);
+    const previous = (row: number, index: number) =>
+      row === 0 ? 0 : rows[row - 1][index];
+    const left = (row: number, index: number) =>
+      index < 3 ? 0 : rows[row][index - 3];
+    const upperLeft = (row: number, index: number) =>
+      row === 0 || index < 3 ? 0 : rows[row - 1][index - 3];
+    const paeth = (a: number, b: number, c: number) => {
+      const p = a + b - c;
+      const [pa, pb, pc] = [Math.abs(p - a), Math.abs(p - b), Math.abs(p - c)];
+      return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+    };
+    const predictors = [
+      () => 0,
+      (row: number, index: number) => left(row, index),
+      (row: number, index: number) => previous(row, index),
+      (row: number, index: number) =>
+        Math.floor((left(row, index) + previous(row, index)) / 2),
+      (row: number, index: number) =>
+        paeth(left(row, index), previous(row, index), upperLeft(row, index)),
+    ];
+    const scanlines = rows.flatMap((samples, row) => [
+      row,
+      ...samples.map(
+        (sample, index) => (sample - predictors[row](row, index) + 256) & 0xff
+      ),
+    ]);
+
+    const png = await buildPng(
+      { width: 2, height: 5, bitDepth: 8, colorType: 2 },
+      scanlines
+    );
+    const decoded = await decodePng(png);
+    expect(rgba(decoded!.pixels)).toEqual(
+      rows.flatMap((samples) => [
+        [...samples.slice(0, 3), 255],
+        [...samples.slice(3), 255],
+      ])
+    );
+  });
+
+  it("reassembles Adam7 interlaced images", async () => {
+    const width = 5;
+    const height = 5;
+    const gray = (x: number, y: number) => y * width + x;
+    const passes = [
+      [0, 0, 8, 8],
+      [4, 0, 8, 8],
+      [0, 4, 4, 8],
+      [2, 0, 4, 4],
+      [0, 2, 2, 4],
+      [1, 0, 2, 2],
+      [0, 1, 1, 2],
+    ];
+    const scanlines: number[] = [];
+    for (const [startX, startY, stepX, stepY] of passes) {
+      for (let y = startY; y < height; y += stepY) {
+        const row: number[] = [];
+        for (let x = startX; x < width; x += stepX) {
+          row.push(gray(x, y));
+        }
+        if (row.length > 0) {
+          scanlines.push(0, ...row);
+        }
+      }
+    }
+
+    const png = await buildPng(
+      { width, height, bitDepth: 8, colorType: 0, interlace: true },
+      scanlines
+    );
+    const decoded = await decodePng(png);
+    expect(rgba(decoded!.pixels).map(([value]) => value)).toEqual(
+      Array.from({ length: width * height }, (_, index) => index)
+    );
+  });
+
+  it("rejects files that are not a valid PNG", async () => {
+    expect(await decodePng(new Uint8Array([0xff, 0xd8, 0xff]))).toBeNull();
+
+    const png = new Uint8Array(await encodePng(1, 1, new Uint8Array(3)));
+    const truncated = png.subarray(0, png.length - 20);
+    expect(readPngChunks(truncated)).toBeNull();
+    expect(await decodePng(truncated)).toBeNull();
+
+    const shortImageData = await buildPng(
+      { width: 1, height: 1, bitDepth: 8, colorType: 0 },
+      []
+    );
+    expect(await decodePng(shortImageData)).toBeNull();
+  });
+
+  it("rejects images too large to decode", async () => {
+    const png = await buildPng(
+      { width: 5000, height: 5000, bitDepth: 8, colorType: 0 },
+      [0]
+    );
+    expect(await decodePng(png)).toBeNull();
+  });
+});
@@ -0,0 +1,379 @@
+import { crc32 } from "./crc32";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  // 8-bit RGBA, row by row
+  pixels: Uint8Array;
+  hasAlpha: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Samples per pixel of each color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 passes as [x start, y start, x step, y step]
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+// Larger than any generated image, and small enough to decode in a worker
+const MAX_DECODED_PIXELS = 4096 * 2048;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+export function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, index) => bytes[index] === byte);
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) {
+    return left;
+  }
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+/**
+ * Reverses the filter of each row in place, starting at `offset`. Returns
+ * the rows without their filter bytes, or null for an unknown filter.
+ */
+function unfilterRows(
+  data: Uint8Array,
+  offset: number,
+  rowBytes: number,
+  rows: number,
+  bytesPerPixel: number
+): Uint8Array | null {
+  const out = new Uint8Array(rowBytes * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (rowBytes + 1)];
+    const row = data.subarray(
+      offset + y * (rowBytes + 1) + 1,
+      offset + (y + 1) * (rowBytes + 1)
+    );
+    const current = out.subarray(y * rowBytes, (y + 1) * rowBytes);
+    const previous =
+      y > 0 ? out.subarray((y - 1) * rowBytes, y * rowBytes) : null;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+      const up = previous ? previous[i] : 0;
+      const upLeft =
+        previous && i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      switch (filter) {
+        case 0:
+          current[i] = row[i];
+          break;
+        case 1:
+          current[i] = row[i] + left;
+          break;
+        case 2:
+          current[i] = row[i] + up;
+          break;
+        case 3:
+          current[i] = row[i] + ((left + up) >> 1);
+          break;
+        case 4:
+          current[i] = row[i] + paeth(left, up, upLeft);
+          break;
+        default:
+          return null;
+      }
+    }
+  }
+  return out;
+}
+
+// =============================================================================
+// CHUNKS
+// =============================================================================
+
+/**
+ * Splits a PNG into its chunks, or returns null when it is not a complete
+ * PNG. CRCs are not checked; the chunks are written back unchanged.
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] | null {
+  if (!isPng(bytes)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    if (offset + 12 + length > bytes.length) {
+      return null;
+    }
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+    if (type === "IEND") {
+      return chunks;
+    }
+  }
+  return null;
+}
+
+export function writePngChunks(chunks: PngChunk[]): Uint8Array {
+  const encoded = [
+    new Uint8Array(PNG_SIGNATURE),
+    ...chunks.map((chunk) => createChunk(chunk.type, chunk.data)),
+  ];
+  const png = new Uint8Array(
+    encoded.reduce((length, chunk) => length + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of encoded) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+/**
+ * Encodes 8-bit RGB pixels, or RGBA with `alpha`, as a PNG with no filtering
+ * on any row.
+ */
+export async function encodePng(
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+  alpha: boolean = false
+): Promise<ArrayBuffer> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = alpha ? 6 : 2; // RGBA or RGB
+
+  const rowLength = width * (alpha ? 4 : 3);
+  const scanlines = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(
+      pixels.subarray(y * rowLength, (y + 1) * rowLength),
+      y * (rowLength + 1) + 1
+    );
+  }
+
+  return writePngChunks([
+    { type: "IHDR", data: header },
+    { type: "IDAT", data: await deflate(scanlines) },
+    { type: "IEND", data: new Uint8Array(0) },
+  ]).buffer as ArrayBuffer;
+}
+
+// =============================================================================
+// DECODING
+// =============================================================================
+
+/**
+ * Decodes a PNG of any color type, bit depth and interlacing to 8-bit RGBA.
+ * Returns null for anything that is not a valid PNG or is too large to hold
+ * in memory.
+ */
+export async function decodePng(bytes: Uint8Array): Promise<DecodedPng | null> {
+  const chunks = readPngChunks(bytes);
+  const header = chunks?.[0];
+  if (!chunks || header?.type !== "IHDR" || header.data.length !== 13) {
+    return null;
+  }
+
+  const view = new DataView(
+    header.data.buffer,
+    header.data.byteOffset,
+    header.data.length
+  );
+  const width = view.getUint32(0);
+  const height = view.getUint32(4);
+  const bitDepth = header.data[8];
+  const colorType = header.data[9];
+  const interlaced = header.data[12] === 1;
+  const channels = CHANNELS[colorType];
+  if (
+    !channels ||
+    ![1, 2, 4, 8, 16].includes(bitDepth) ||
+    width === 0 ||
+    height === 0 ||
+    width * height > MAX_DECODED_PIXELS
+  ) {
+    return null;
+  }
+
+  const palette = chunks.find((chunk) => chunk.type === "PLTE")?.data;
+  const transparency = chunks.find((chunk) => chunk.type === "tRNS")?.data;
+  if (colorType === 3 && !palette) {
+    return null;
+  }
+
+  let data: Uint8Array;
+  try {
+    const compressed = chunks.filter((chunk) => chunk.type === "IDAT");
+    const joined = new Uint8Array(
+      compressed.reduce((length, chunk) => length + chunk.data.length, 0)
+    );
+    let position = 0;
+    for (const chunk of compressed) {
+      joined.set(chunk.data, position);
+      position += chunk.data.length;
+    }
+    data = await inflate(joined);
+  } catch {
+    return null;
+  }
+
+  const maxSample = (1 << bitDepth) - 1;
+  const transparentSample = (index: number) =>
+    transparency && transparency.length >= (index + 1) * 2
+      ? (transparency[index * 2] << 8) | transparency[index * 2 + 1]
+      : -1;
+
+  // Reads sample `index` of a row at its own bit depth
+  const readSample = (row: Uint8Array, index: number) => {
+    if (bitDepth === 8) {
+      return row[index];
+    }
+    if (bitDepth === 16) {
+      return (row[index * 2] << 8) | row[index * 2 + 1];
+    }
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8Bit = (sample: number) =>
+    bitDepth === 16 ? sample >> 8 : Math.round((sample * 255) / maxSample);
+
+  const pixels = new Uint8Array(width * height * 4);
+  const passes = interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+  const bytesPerPixel = Math.max(1, Math.ceil((channels * bitDepth) / 8));
+  let offset = 0;
+
+  for (const [xStart, yStart, xStep, yStep] of passes) {
+    const passWidth = Math.ceil((width - xStart) / xStep);
+    const passHeight = Math.ceil((height - yStart) / yStep);
+    if (passWidth <= 0 || passHeight <= 0) {
+      continue;
+    }
+    const rowBytes = Math.ceil((passWidth * channels * bitDepth) / 8);
+    if (offset + (rowBytes + 1) * passHeight > data.length) {
+      return null;
+    }
+    const rows = unfilterRows(
+      data,
+      offset,
+      rowBytes,
+      passHeight,
+      bytesPerPixel
+    );
+    if (!rows) {
+      return null;
+    }
+    offset += (rowBytes + 1) * passHeight;
+
+    for (let y = 0; y < passHeight; y++) {
+      const row = rows.subarray(y * rowBytes, (y + 1) * rowBytes);
+      for (let x = 0; x < passWidth; x++) {
+        const target = ((yStart + y * yStep) * width + xStart + x * xStep) * 4;
+        const sample = (channel: number) =>
+          readSample(row, x * channels + channel);
+
+        let rgba: [number, number, number, number];
+        if (colorType === 3) {
+          const index = sample(0);
+          rgba = [
+            palette![index * 3] ?? 0,
+            palette![index * 3 + 1] ?? 0,
+            palette![index * 3 + 2] ?? 0,
+            transparency?.[index] ?? 255,
+          ];
+        } else if (colorType === 0 || colorType === 4) {
+          const gray = sample(0);
+          const value = to8Bit(gray);
+          const alpha =
+            colorType === 4
+              ? to8Bit(sample(1))
+              : gray === transparentSample(0)
+              ? 0
+              : 255;
+          rgba = [value, value, value, alpha];
+        } else {
+          const [red, green, blue] = [sample(0), sample(1), sample(2)];
+          const alpha =
+            colorType === 6
+              ? to8Bit(sample(3))
+              : red === transparentSample(0) &&
+                green === transparentSample(1) &&
+                blue === transparentSample(2)
+              ? 0
+              : 255;
+          rgba = [to8Bit(red), to8Bit(green), to8Bit(blue), alpha];
+        }
+        pixels.set(rgba, target);
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    pixels,
+    hasAlpha: colorType === 4 || colorType === 6 || transparency !== undefined,
+  };
+}
@@ -0,0 +1,320 @@
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Per-model rates as published by OpenAI, in US dollars. Charges derived from
+ * them are always rounded to whole cents, which is the unit of the Stripeflare
+ * balance.
+ */
+export interface ModelPricing {
+  TEXT_INPUT_PER_1M: number;
+  TEXT_INPUT_CACHED_PER_1M: number;
+  IMAGE_INPUT_PER_1M: number;
+  IMAGE_INPUT_CACHED_PER_1M: number;
+  IMAGE_OUTPUT_PER_1M: number;
+  OUTPUT_COSTS: Record<string, Record<string, number>>;
+}
+
+export type ImageModel = keyof typeof PRICING.MODELS;
+
+export interface ImageCostParams {
+  prompt: string;
+  size: string;
+  quality: string;
+  model?: ImageModel;
+  n?: number;
+  inputImageTokens?: number;
+  cachedInputTokens?: number;
+}
+
+export interface ImageCostBreakdown {
+  model: ImageModel;
+  n: number;
+  textInputTokens: number;
+  textInputCostInDollars: number;
+  imageInputTokens: number;
+  imageInputCostInDollars: number;
+  imageOutputCostInDollars: number;
+  feeInDollars: number;
+  totalCostInCents: number;
+  breakdown: {
+    textInput: string;
+    imageInput: string;
+    imageOutput: string;
+    fee: string;
+    total: string;
+  };
+}
+
+/** Token counts in the shape of the `usage` block of OpenAI image responses. */
+export interface ImageTokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  input_tokens_details?: {
+    text_tokens?: number;
+    image_tokens?: number;
+  };
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const GPT_IMAGE_1_PRICING: ModelPricing = {
+  TEXT_INPUT_PER_1M: 5.0,
+  TEXT_INPUT_CACHED_PER_1M: 1.25,
+  IMAGE_INPUT_PER_1M: 10.0,
+  IMAGE_INPUT_CACHED_PER_1M: 2.5,
+  IMAGE_OUTPUT_PER_1M: 40.0,
+  OUTPUT_COSTS: {
+    low: {
+      "1024x1024": 0.011,
+      "1024x1536": 0.016,
+      "1536x1024": 0.016,
+    },
+    medium: {
+      "1024x1024": 0.042,
+      "1024x1536": 0.063,
+      "1536x1024": 0.063,
+    },
+    high: {
+      "1024x1024": 0.167,
+      "1024x1536": 0.25,
+      "1536x1024": 0.25,
+    },
+    auto: {
+      "1024x1024": 0.167,
+      "1024x1536": 0.25,
+      "1536x1024": 0.25,
+    },
+  },
+};
+
+// Billed per image only, so there are no token rates
+const DALL_E_3_PRICING: ModelPricing = {
+  TEXT_INPUT_PER_1M: 0,
+  TEXT_INPUT_CACHED_PER_1M: 0,
+  IMAGE_INPUT_PER_1M: 0,
+  IMAGE_INPUT_CACHED_PER_1M: 0,
+  IMAGE_OUTPUT_PER_1M: 0,
+  OUTPUT_COSTS: {
+    standard: {
+      "1024x1024": 0.04,
+      "1024x1792": 0.08,
+      "1792x1024": 0.08,
+    },
+    hd: {
+      "1024x1024": 0.08,
+      "1024x1792": 0.12,
+      "1792x1024": 0.12,
+    },
+  },
+};
+
+export const PRICING = {
+  MODELS: {
+    "gpt-image-1": GPT_IMAGE_1_PRICING,
+    "dall-e-3": DALL_E_3_PRICING,
+  },
+  DEFAULT_MODEL: "gpt-image-1",
+  // Multiplier applied to the OpenAI cost, i.e. a 20% fee
+  FEE_PERCENTAGE_PER_IMAGE: 1.2,
+  MINIMUM_CHARGE_CENTS: 1,
+} as const;
+
+export const IMAGE_MODELS = Object.keys(PRICING.MODELS) as ImageModel[];
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Converts dollars to the integer cents we charge, always rounding up so we
+ * never charge less than OpenAI bills us, and never below the minimum charge.
+ */
+export function dollarsToChargeCents(dollars: number): number {
+  // Strip float noise such as 1.3200000000000003 before rounding up
+  const cents = Math.ceil(Number((dollars * 100).toFixed(6)));
+  return Math.max(cents, PRICING.MINIMUM_CHARGE_CENTS);
+}
+
+export function formatDollars(dollars: number): string {
+  return `$${Number(dollars.toFixed(6))}`;
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function getFeePercentage(): number {
+  return Math.ceil((PRICING.FEE_PERCENTAGE_PER_IMAGE - 1) * 100);
+}
+
+export function getOutputCostInDollars(
+  model: ImageModel,
+  quality: string,
+  size: string
+): number | null {
+  return (
+    PRICING.MODELS[model].OUTPUT_COSTS[quality.toLowerCase()]?.[size] ?? null
+  );
+}
+
+// =============================================================================
+// COST CALCULATION
+// =============================================================================
+
+export function calculateImageTokens(width: number, height: number): number {
+  const shortestSide = Math.min(width, height);
+  const scaleFactor = 512 / shortestSide;
+
+  const scaledWidth = Math.ceil(width * scaleFactor);
+  const scaledHeight = Math.ceil(height * scaleFactor);
+
+  const tilesX = Math.ceil(scaledWidth / 512);
+  const tilesY = Math.ceil(scaledHeight / 512);
+  const totalTiles = tilesX * tilesY;
+
+  return totalTiles * 129 + 65;
+}
+
+/**
+ * Quotes a generation of `n` images. Throws for a model, quality and size
+ * combination without a price so an unpriced request can never be charged
+ * as free.
+ */
+export function calculateImageGenerationCost(
+  params: ImageCostParams
+): ImageCostBreakdown {
+  const {
+    prompt,
+    size,
+    quality,
+    model = PRICING.DEFAULT_MODEL,
+    n = 1,
+    inputImageTokens = 0,
+    cachedInputTokens = 0,
+  } = params;
+  const rates = PRICING.MODELS[model];
+
+  const outputCostPerImage = getOutputCostInDollars(model, quality, size);
+  if (outputCostPerImage === null) {
+    throw new Error(`No price for ${model} at ${quality} quality and ${size}`);
+  }
+
+  // Text input cost
+  const textInputTokens = estimateTextTokens(prompt);
+  const textInputCostInDollars =
+    cachedInputTokens > 0
+      ? (cachedInputTokens / 1_000_000) * rates.TEXT_INPUT_CACHED_PER_1M
+      : (textInputTokens / 1_000_000) * rates.TEXT_INPUT_PER_1M;
+
+  // Image input cost
+  const imageInputCostInDollars =
+    inputImageTokens > 0
+      ? (inputImageTokens / 1_000_000) * rates.IMAGE_INPUT_PER_1M
+      : 0;
+
+  // Image output cost for every requested image
+  const imageOutputCostInDollars = outputCostPerImage * n;
+
+  // Total with fee, rounded up to whole cents
+  const subtotalInDollars =
+    textInputCostInDollars + imageInputCostInDollars + imageOutputCostInDollars;
+  const feeInDollars =
+    subtotalInDollars * (PRICING.FEE_PERCENTAGE_PER_IMAGE - 1);
+  const totalCostInCents = dollarsToChargeCents(
+    subtotalInDollars + feeInDollars
+  );
+
+  return {
+    model,
+    n,
+    textInputTokens,
+    textInputCostInDollars,
+    imageInputTokens: inputImageTokens,
+    imageInputCostInDollars,
+    imageOutputCostInDollars,
+    feeInDollars,
+    totalCostInCents,
+    breakdown: {
+      textInput: `${formatDollars(
+        textInputCostInDollars
+      )} (${textInputTokens.toLocaleString()} tokens)`,
+      imageInput:
+        inputImageTokens > 0
+          ? `${formatDollars(
+              imageInputCostInDollars
+            )} (${inputImageTokens.toLocaleString()} tokens)`
+          : "$0.00 (0 tokens)",
+      imageOutput: `${formatDollars(
+        imageOutputCostInDollars
+      )} (${n} x ${formatDollars(outputCostPerImage)})`,
+      fee: `${formatDollars(feeInDollars)} (${getFeePercentage()}%)`,
+      total: formatCents(totalCostInCents),
+    },
+  };
+}
+
+/**
+ * What OpenAI bills us for a completed generation, before our fee, from the
+ * token counts it reports. Returns null when no usage was reported.
+ */
+export function calculateUsageCostInDollars(
+  usage: ImageTokenUsage | null,
+  model: ImageModel = PRICING.DEFAULT_MODEL
+): number | null {
+  if (!usage) {
+    return null;
+  }
+
+  const rates = PRICING.MODELS[model];
+  const textInputTokens =
+    usage.input_tokens_details?.text_tokens ?? usage.input_tokens;
+  const imageInputTokens = usage.input_tokens_details?.image_tokens ?? 0;
+
+  return (
+    (textInputTokens / 1_000_000) * rates.TEXT_INPUT_PER_1M +
+    (imageInputTokens / 1_000_000) * rates.IMAGE_INPUT_PER_1M +
+    (usage.output_tokens / 1_000_000) * rates.IMAGE_OUTPUT_PER_1M
+  );
+}
+
+/**
+ * Prices a completed generation from the token counts OpenAI reports, using the
+ * same fee and rounding as the up-front quote. Returns null when no usage was
+ * reported.
+ */
+export function calculateUsageCostInCents(
+  usage: ImageTokenUsage | null,
+  model: ImageModel = PRICING.DEFAULT_MODEL
+): number | null {
+  const costInDollars = calculateUsageCostInDollars(usage, model);
+  if (costInDollars === null) {
+    return null;
+  }
+
+  return dollarsToChargeCents(costInDollars * PRICING.FEE_PERCENTAGE_PER_IMAGE);
+}
+
+/**
+ * Our own cost of a generation: the reported usage when there is any,
+ * otherwise the estimate without the fee.
+ */
+export function calculateProviderCostInDollars(
+  costBreakdown: ImageCostBreakdown,
+  usage: ImageTokenUsage | null
+): number {
+  return (
+    calculateUsageCostInDollars(usage, costBreakdown.model) ??
+    costBreakdown.textInputCostInDollars +
+      costBreakdown.imageInputCostInDollars +
+      costBreakdown.imageOutputCostInDollars
+  );
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { encodePng } from "./png";
+import { embedProvenance, Provenance, verifyProvenance } from "./provenance";
+
+const secret = "provenance-secret";
+
+const provenance: Provenance = {
+  prompt: 'a "cat" & <dog> ünïcode 😀',
+  model: "gpt-image-1",
+  size: "1024x1024",
+  quality: "low",
+  createdAt: "2025-06-01T12:00:00.000Z",
+};
+
+// The smallest files the embedders accept: a JPEG with a JFIF header and a
+// lossless WebP
+const jpeg = new Uint8Array([
+  ...[0xff, 0xd8, 0xff, 0xe0, 0, 16, 74, 70, 73, 70, 0, 1, 1, 0, 0, 1, 0, 1],
+  ...[0, 0, 0xff, 0xdb, 0, 4, 1, 2, 0xff, 0xda, 0, 3, 9, 1, 2, 3, 4, 5],
+  ...[0xff, 0xd9],
+]).buffer;
+
+function createWebp(): ArrayBuffer {
+  const bits = 99 | (49 << 14) | (1 << 28);
+  const vp8l = [0x2f, ...[0, 8, 16, 24].map((shift) => (bits >>> shift) & 255)];
+  const data = [...vp8l, 1, 2, 3];
+  const body = [
+    ..."VP8L".split("").map((char) => char.charCodeAt(0)),
+    ...[data.length, 0, 0, 0],
+    ...data,
+    ...(data.length % 2 ? [0] : []),
+  ];
+  const riff = new Uint8Array(12 + body.length);
+  riff.set(new TextEncoder().encode("RIFF"));
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set(new TextEncoder().encode("WEBP"), 8);
+  riff.set(body, 12);
+  return riff.buffer;
+}
+
+async function getImages(): Promise<Array<[string, ArrayBuffer]>> {
+  return [
+    ["png", await encodePng(4, 3, new Uint8Array(36).fill(7))],
+    ["jpeg", jpeg],
+    ["webp", createWebp()],
+  ];
+}
+
+function indexOf(bytes: Uint8Array, marker: string | number[]): number {
+  const needle =
+    typeof marker === "string" ? new TextEncoder().encode(marker) : marker;
+  return bytes.findIndex((_, start) =>
+    needle.every((byte, index) => bytes[start + index] === byte)
+  );
+}
+
+/** Flips one bit of the image data, found after the marker that starts it. */
+function tamper(signed: ArrayBuffer, format: string): ArrayBuffer {
+  const bytes = new Uint8Array(signed.slice(0));
+  const [marker, offset] = IMAGE_DATA[format];
+  bytes[indexOf(bytes, marker) + offset] ^= 1;
+  return bytes.buffer;
+}
+
+// Where the image data starts: after the PNG's IDAT type, inside the JPEG's
+// scan and the WebP's bitstream header
+const IMAGE_DATA: Record<string, [string | number[], number]> = {
+  png: ["IDAT", 6],
+  jpeg: [[0xff, 0xda], 6],
+  webp: ["VP8L", 10],
+};
+
+describe("embedProvenance and verifyProvenance", () => {
+  it("verifies a signed image of every format and reads back its record", async () => {
+    for (const [, image] of await getImages()) {
+      const signed = await embedProvenance(secret, image, provenance);
+      expect(await verifyProvenance(secret, signed)).toMatchObject({
+        status: "verified",
+        verified: true,
+        provenance: { ...provenance, promptTruncated: false },
+      });
+    }
+  });
+
+  it("reports images changed after signing as altered", async () => {
+    for (const [format, image] of await getImages()) {
+      const signed = await embedProvenance(secret, image, provenance);
+      const result = await verifyProvenance(secret, tamper(signed, format));
+      expect(result?.status).toBe("altered");
+    }
+  });
+
+  it("reports an edited prompt as altered", async () => {
+    for (const [, image] of await getImages()) {
+      const signed = new Uint8Array(
+        await embedProvenance(secret, image, provenance)
+      );
+      const at = indexOf(signed, "cat");
+      signed.set(new TextEncoder().encode("cow"), at);
+
+      const result = await verifyProvenance(secret, signed.buffer);
+      expect(result?.status).toBe("altered");
+      expect(result?.provenance?.prompt).toContain("cow");
+    }
+  });
+
+  it("rejects records signed with another secret", async () => {
+    const [[, png]] = await getImages();
+    const signed = await embedProvenance("other-secret", png, provenance);
+    expect(await verifyProvenance(secret, signed)).toMatchObject({
+      status: "invalid_signature",
+      provenance: null,
+    });
+  });
+
+  it("reports images without a record as unsigned", async () => {
+    for (const [, image] of await getImages()) {
+      expect((await verifyProvenance(secret, image))?.status).toBe("unsigned");
+    }
+  });
+
+  it("replaces an existing record when signing again", async () => {
+    for (const [, image] of await getImages()) {
+      const signed = await embedProvenance(secret, image, provenance);
+      const resigned = await embedProvenance(secret, signed, {
+        ...provenance,
+        prompt: "a dog",
+      });
+      expect(await verifyProvenance(secret, resigned)).toMatchObject({
+        status: "verified",
+        provenance: { prompt: "a dog" },
+      });
+    }
+  });
+
+  it("cuts prompts too long for a JPEG segment before signing", async () => {
+    const long = { ...provenance, prompt: '"&'.repeat(16_000) };
+    const signed = await embedProvenance(secret, jpeg, long);
+    const result = await verifyProvenance(secret, signed);
+    expect(result?.status).toBe("verified");
+    expect(result?.provenance?.promptTruncated).toBe(true);
+    expect(long.prompt.startsWith(result!.provenance!.prompt)).toBe(true);
+  });
+
+  it("returns images it cannot parse unchanged", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const unknown = new Uint8Array([1, 2, 3, 4]).buffer;
+    expect(await embedProvenance(secret, unknown, provenance)).toBe(unknown);
+    expect(await verifyProvenance(secret, unknown)).toBeNull();
+  });
+});
@@ -0,0 +1,837 @@
+import { ExtendedEnv } from "./env";
+import {
+  createNegotiatedResponse,
+  escapeHtml,
+  renderHtmlPage,
+  renderHtmlTable,
+} from "./negotiation";
+import type { ImageParams } from "./providers";
+import { readPngChunks, writePngChunks, PngChunk } from "./png";
+import { CORS_HEADERS } from "./responses";
+import {
+  createValidationErrorResponse,
+  invalid,
+  ValidationResult,
+} from "./schema";
+import { createSignedToken, sha256Hex, verifySignedToken } from "./signing";
+import { detectImageType, readBodyWithLimit } from "./sources";
+import { getSigningSecret, truncateUtf8 } from "./storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** What an embedded record says about how an image was made. */
+export interface Provenance {
+  prompt: string;
+  model: string;
+  size: string;
+  quality: string;
+  createdAt: string;
+}
+
+/**
+ * The signed part of a record. The prompt is only signed as a hash so the
+ * token stays small; the readable prompt sits next to it in the file, cut
+ * short where the format limits its size.
+ */
+interface ProvenancePayload {
+  v: 1;
+  service: string;
+  model: string;
+  size: string;
+  quality: string;
+  createdAt: string;
+  promptSha256: string;
+  promptTruncated: boolean;
+  imageSha256: string;
+}
+
+export type VerificationStatus =
+  | "verified"
+  | "altered"
+  | "invalid_signature"
+  | "unsigned";
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  verified: boolean;
+  // Only set when the signature is valid
+  provenance: (Provenance & { promptTruncated: boolean }) | null;
+  message: string;
+}
+
+/** Embedded fields as read back from a file, with the file minus them. */
+interface ExtractedProvenance {
+  canonical: Uint8Array;
+  token: string | null;
+  prompt: string | null;
+}
+
+interface WebpChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+type ImageType = "image/png" | "image/jpeg" | "image/webp";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const PROVENANCE = {
+  service: "image.brubslabs.com",
+  maxImageBytes: 20 * 1024 * 1024,
+} as const;
+
+// Standard PNG keywords where they exist, so image viewers show them
+const PNG_KEYWORDS = {
+  prompt: "Description",
+  model: "Source",
+  software: "Software",
+  createdAt: "Creation Time",
+  signature: "Provenance",
+} as const;
+
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+const XMP_NAMESPACE = `https://${PROVENANCE.service}/ns/provenance/1.0/`;
+
+// An APP1 segment holds at most 65533 bytes after its length, including the
+// XMP header (all ASCII, so one byte per character)
+const MAX_JPEG_XMP_BYTES = 65_533 - XMP_HEADER.length;
+
+// Tokens of the payload below are about 420 characters
+const MAX_TOKEN_LENGTH = 512;
+
+// WebP VP8X flag announcing an XMP chunk
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_ALPHA_FLAG = 0x10;
+
+// Room for the boundaries and other fields around an uploaded form's image
+export const UPLOAD_FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/** `PROVENANCE_SECRET`, or the image signing secret when it is not set. */
+export function getProvenanceSecret(env: ExtendedEnv): string {
+  return env.PROVENANCE_SECRET || getSigningSecret(env);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+// =============================================================================
+// PNG
+// =============================================================================
+
+function getPngTextKeyword(chunk: PngChunk): string | null {
+  if (!["tEXt", "zTXt", "iTXt"].includes(chunk.type)) {
+    return null;
+  }
+  const end = chunk.data.indexOf(0);
+  return end === -1 ? null : ascii(chunk.data, 0, end);
+}
+
+/** An uncompressed iTXt chunk, which unlike tEXt holds UTF-8. */
+function createPngText(keyword: string, text: string): PngChunk {
+  const encoder = new TextEncoder();
+  return {
+    type: "iTXt",
+    data: concatBytes([
+      encoder.encode(keyword),
+      // Separator, no compression, then empty language and translated keyword
+      new Uint8Array([0, 0, 0, 0, 0]),
+      encoder.encode(text),
+    ]),
+  };
+}
+
+function readPngText(chunk: PngChunk): string | null {
+  const keywordEnd = chunk.data.indexOf(0);
+  if (chunk.type !== "iTXt" || keywordEnd === -1) {
+    return null;
+  }
+  // Compressed text is never written here
+  if (chunk.data[keywordEnd + 1] !== 0) {
+    return null;
+  }
+  const languageEnd = chunk.data.indexOf(0, keywordEnd + 3);
+  const translatedEnd =
+    languageEnd === -1 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+  if (translatedEnd === -1) {
+    return null;
+  }
+  return new TextDecoder().decode(chunk.data.subarray(translatedEnd + 1));
+}
+
+function extractFromPng(bytes: Uint8Array): ExtractedProvenance | null {
+  const chunks = readPngChunks(bytes);
+  if (!chunks) {
+    return null;
+  }
+
+  const keywords: string[] = Object.values(PNG_KEYWORDS);
+  const kept: PngChunk[] = [];
+  let token: string | null = null;
+  let prompt: string | null = null;
+  for (const chunk of chunks) {
+    const keyword = getPngTextKeyword(chunk);
+    if (keyword === null || !keywords.includes(keyword)) {
+      kept.push(chunk);
+    } else if (keyword === PNG_KEYWORDS.signature) {
+      token = readPngText(chunk);
+    } else if (keyword === PNG_KEYWORDS.prompt) {
+      prompt = readPngText(chunk);
+    }
+  }
+
+  return { canonical: writePngChunks(kept), token, prompt };
+}
+
+function embedInPng(
+  canonical: Uint8Array,
+  provenance: Provenance,
+  token: string
+): Uint8Array {
+  const [header, ...rest] = readPngChunks(canonical)!;
+  return writePngChunks([
+    header,
+    createPngText(PNG_KEYWORDS.prompt, provenance.prompt),
+    createPngText(PNG_KEYWORDS.model, provenance.model),
+    createPngText(PNG_KEYWORDS.software, PROVENANCE.service),
+    createPngText(PNG_KEYWORDS.createdAt, provenance.createdAt),
+    createPngText(PNG_KEYWORDS.signature, token),
+    ...rest,
+  ]);
+}
+
+// =============================================================================
+// XMP
+// =============================================================================
+
+function createXmpPacket(provenance: Provenance, token: string): string {
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about=""
+ xmlns:dc="http://purl.org/dc/elements/1.1/"
+ xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+ xmlns:provenance="${XMP_NAMESPACE}"
+ xmp:CreatorTool="${PROVENANCE.service}"
+ xmp:CreateDate="${escapeXml(provenance.createdAt)}"
+ provenance:model="${escapeXml(provenance.model)}"
+ provenance:size="${escapeXml(provenance.size)}"
+ provenance:quality="${escapeXml(provenance.quality)}"
+ provenance:signature="${escapeXml(token)}">
+<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(
+    provenance.prompt
+  )}</rdf:li></rdf:Alt></dc:description>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+}
+
+function readXmpPacket(packet: string): {
+  token: string | null;
+  prompt: string | null;
+} {
+  const token = packet.match(/provenance:signature="([^"]*)"/);
+  const prompt = packet.match(
+    /<dc:description><rdf:Alt><rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/
+  );
+  return {
+    token: token ? unescapeXml(token[1]) : null,
+    prompt: prompt ? unescapeXml(prompt[1]) : null,
+  };
+}
+
+/**
+ * Cuts a prompt short enough for its packet to fit in `maxBytes`. This runs
+ * before signing, so the token is stood in for by one at least as long.
+ */
+function fitXmpPrompt(provenance: Provenance, maxBytes: number): string {
+  const encoder = new TextEncoder();
+  const token = "0".repeat(MAX_TOKEN_LENGTH);
+  const measure = (prompt: string) =>
+    encoder.encode(createXmpPacket({ ...provenance, prompt }, token)).length;
+
+  const overhead = measure("");
+  let prompt = provenance.prompt;
+  let length = measure(prompt);
+  // Escaping lengthens the prompt by an uneven amount, so keep the share of
+  // it that fits and repeat until the packet does
+  while (length > maxBytes && prompt.length > 0) {
+    const promptBytes = encoder.encode(prompt).length;
+    const fittingBytes = Math.floor(
+      (promptBytes * (maxBytes - overhead)) / (length - overhead)
+    );
+    prompt = truncateUtf8(prompt, Math.min(promptBytes - 1, fittingBytes));
+    length = measure(prompt);
+  }
+  return prompt;
+}
+
+// =============================================================================
+// JPEG
+// =============================================================================
+
+/** Splits a JPEG into the segments before its scan data and the rest. */
+function readJpegSegments(
+  bytes: Uint8Array
+): { segments: Uint8Array[]; rest: Uint8Array } | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+
+  const segments: Uint8Array[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    const marker = bytes[offset + 1];
+    // Start of scan: entropy-coded data follows, kept as is
+    if (marker === 0xda) {
+      return { segments, rest: bytes.subarray(offset) };
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2 || offset + 2 + length > bytes.length) {
+      return null;
+    }
+    segments.push(bytes.subarray(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function isXmpSegment(segment: Uint8Array): boolean {
+  return (
+    segment[1] === 0xe1 && ascii(segment, 4, XMP_HEADER.length) === XMP_HEADER
+  );
+}
+
+function extractFromJpeg(bytes: Uint8Array): ExtractedProvenance | null {
+  const parsed = readJpegSegments(bytes);
+  if (!parsed) {
+    return null;
+  }
+
+  let found: ReturnType<typeof readXmpPacket> = { token: null, prompt: null };
+  const kept = parsed.segments.filter((segment) => {
+    if (!isXmpSegment(segment)) {
+      return true;
+    }
+    const packet = readXmpPacket(
+      new TextDecoder().decode(segment.subarray(4 + XMP_HEADER.length))
+    );
+    if (packet.token !== null) {
+      found = packet;
+    }
+    return false;
+  });
+
+  return {
+    canonical: concatBytes([
+      new Uint8Array([0xff, 0xd8]),
+      ...kept,
+      parsed.rest,
+    ]),
+    ...found,
+  };
+}
+
+function embedInJpeg(
+  canonical: Uint8Array,
+  provenance: Provenance,
+  token: string
+): Uint8Array {
+  const { segments, rest } = readJpegSegments(canonical)!;
+  const header = new TextEncoder().encode(XMP_HEADER);
+  const packet = new TextEncoder().encode(createXmpPacket(provenance, token));
+  const length = 2 + header.length + packet.length;
+  const segment = concatBytes([
+    new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]),
+    header,
+    packet,
+  ]);
+
+  // After the JFIF header, which readers expect first
+  const position = segments[0]?.[1] === 0xe0 ? 1 : 0;
+  return concatBytes([
+    new Uint8Array([0xff, 0xd8]),
+    ...segments.slice(0, position),
+    segment,
+    ...segments.slice(position),
+    rest,
+  ]);
+}
+
+// =============================================================================
+// WEBP
+// =============================================================================
+
+function readWebpChunks(bytes: Uint8Array): WebpChunk[] | null {
+  if (ascii(bytes, 0, 4) !== "RIFF" || ascii(bytes, 8, 4) !== "WEBP") {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const chunks: WebpChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    if (offset + 8 + length > bytes.length) {
+      return null;
+    }
+    chunks.push({
+      type: ascii(bytes, offset, 4),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+    });
+    // Chunks are padded to an even length
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+}
+
+function writeWebpChunks(chunks: WebpChunk[]): Uint8Array {
+  const encoded = chunks.map((chunk) => {
+    const padded = new Uint8Array(
+      8 + chunk.data.length + (chunk.data.length % 2)
+    );
+    padded.set(new TextEncoder().encode(chunk.type), 0);
+    new DataView(padded.buffer).setUint32(4, chunk.data.length, true);
+    padded.set(chunk.data, 8);
+    return padded;
+  });
+  const body = concatBytes(encoded);
+  const header = new Uint8Array(12);
+  header.set(new TextEncoder().encode("RIFF"), 0);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set(new TextEncoder().encode("WEBP"), 8);
+  return concatBytes([header, body]);
+}
+
+/** Canvas size and alpha of a simple lossy or lossless WebP. */
+function getWebpCanvas(
+  chunk: WebpChunk
+): { width: number; height: number; alpha: boolean } | null {
+  const { data } = chunk;
+  // A key frame's start code precedes its size
+  if (
+    chunk.type === "VP8 " &&
+    data.length >= 10 &&
+    data[3] === 0x9d &&
+    data[4] === 0x01 &&
+    data[5] === 0x2a
+  ) {
+    return {
+      width: ((data[7] << 8) | data[6]) & 0x3fff,
+      height: ((data[9] << 8) | data[8]) & 0x3fff,
+      alpha: false,
+    };
+  }
+  if (chunk.type === "VP8L" && data.length >= 5 && data[0] === 0x2f) {
+    const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      alpha: ((bits >>> 28) & 1) === 1,
+    };
+  }
+  return null;
+}
+
+/**
+ * The file without XMP, in the extended format with the XMP flag already
+ * set, so adding the XMP chunk afterwards changes nothing else.
+ */
+function extractFromWebp(bytes: Uint8Array): ExtractedProvenance | null {
+  const chunks = readWebpChunks(bytes);
+  if (!chunks || chunks.length === 0) {
+    return null;
+  }
+
+  let found: ReturnType<typeof readXmpPacket> = { token: null, prompt: null };
+  const kept = chunks.filter((chunk) => {
+    if (chunk.type !== "XMP ") {
+      return true;
+    }
+    found = readXmpPacket(new TextDecoder().decode(chunk.data));
+    return false;
+  });
+
+  if (kept[0].type === "VP8X") {
+    const extended = kept[0].data.slice();
+    extended[0] |= WEBP_XMP_FLAG;
+    kept[0] = { type: "VP8X", data: extended };
+  } else {
+    const canvas = getWebpCanvas(kept[0]);
+    if (!canvas) {
+      return null;
+    }
+    const extended = new Uint8Array(10);
+    extended[0] = WEBP_XMP_FLAG | (canvas.alpha ? WEBP_ALPHA_FLAG : 0);
+    for (const [offset, value] of [
+      [4, canvas.width - 1],
+      [7, canvas.height - 1],
+    ]) {
+      extended[offset] = value & 0xff;
+      extended[offset + 1] = (value >> 8) & 0xff;
+      extended[offset + 2] = (value >> 16) & 0xff;
+    }
+    kept.unshift({ type: "VP8X", data: extended });
+  }
+
+  return { canonical: writeWebpChunks(kept), ...found };
+}
+
+function embedInWebp(
+  canonical: Uint8Array,
+  provenance: Provenance,
+  token: string
+): Uint8Array {
+  // XMP comes last, after the image data
+  return writeWebpChunks([
+    ...readWebpChunks(canonical)!,
+    {
+      type: "XMP ",
+      data: new TextEncoder().encode(createXmpPacket(provenance, token)),
+    },
+  ]);
+}
+
+// =============================================================================
+// PROVENANCE
+// =============================================================================
+
+function extractProvenance(
+  bytes: Uint8Array,
+  type: ImageType
+): ExtractedProvenance | null {
+  switch (type) {
+    case "image/png":
+      return extractFromPng(bytes);
+    case "image/jpeg":
+      return extractFromJpeg(bytes);
+    case "image/webp":
+      return extractFromWebp(bytes);
+  }
+}
+
+/**
+ * Embeds a signed provenance record: PNG text chunks, or XMP in JPEG and
+ * WebP. The signature covers the file as it is without the record, so any
+ * change to the image afterwards breaks it. Never throws: an image that
+ * cannot be parsed is returned unchanged rather than failing a paid
+ * generation.
+ */
+export async function embedProvenance(
+  secret: string,
+  imageBuffer: ArrayBuffer,
+  provenance: Provenance
+): Promise<ArrayBuffer> {
+  try {
+    const bytes = new Uint8Array(imageBuffer);
+    const type = detectImageType(imageBuffer)?.contentType;
+    const extracted = type ? extractProvenance(bytes, type) : null;
+    if (!type || !extracted) {
+      throw new Error("Unsupported image");
+    }
+
+    // JPEG segments are size limited, so a long prompt is cut short before
+    // it is signed
+    const prompt =
+      type === "image/jpeg"
+        ? fitXmpPrompt(provenance, MAX_JPEG_XMP_BYTES)
+        : provenance.prompt;
+    const payload: ProvenancePayload = {
+      v: 1,
+      service: PROVENANCE.service,
+      model: provenance.model,
+      size: provenance.size,
+      quality: provenance.quality,
+      createdAt: provenance.createdAt,
+      promptSha256: await sha256Hex(prompt),
+      promptTruncated: prompt !== provenance.prompt,
+      imageSha256: await sha256Hex(toArrayBuffer(extracted.canonical)),
+    };
+    const token = await createSignedToken(secret, "provenance", payload);
+
+    const embed =
+      type === "image/png"
+        ? embedInPng
+        : type === "image/jpeg"
+        ? embedInJpeg
+        : embedInWebp;
+    return toArrayBuffer(
+      embed(extracted.canonical, { ...provenance, prompt }, token)
+    );
+  } catch (error) {
+    console.error("Failed to embed provenance:", error);
+    return imageBuffer;
+  }
+}
+
+/** Embeds the record of a generation that has just finished. */
+export async function signGeneratedImage(
+  env: ExtendedEnv,
+  imageBuffer: ArrayBuffer,
+  params: ImageParams
+): Promise<ArrayBuffer> {
+  return await embedProvenance(getProvenanceSecret(env), imageBuffer, {
+    prompt: params.prompt,
+    model: params.model,
+    size: params.size,
+    quality: params.quality,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Reports whether an image carries a valid record from this service and is
+ * byte for byte the image that was signed.
+ */
+export async function verifyProvenance(
+  secret: string,
+  imageBuffer: ArrayBuffer
+): Promise<VerificationResult | null> {
+  const type = detectImageType(imageBuffer)?.contentType;
+  const extracted = type
+    ? extractProvenance(new Uint8Array(imageBuffer), type)
+    : null;
+  if (!extracted) {
+    return null;
+  }
+
+  if (!extracted.token) {
+    return {
+      status: "unsigned",
+      verified: false,
+      provenance: null,
+      message: `This image carries no provenance record from ${PROVENANCE.service}`,
+    };
+  }
+
+  const payload = await verifySignedToken<ProvenancePayload>(
+    secret,
+    "provenance",
+    extracted.token
+  );
+  if (!payload || payload.service !== PROVENANCE.service) {
+    return {
+      status: "invalid_signature",
+      verified: false,
+      provenance: null,
+      message: `The provenance record was not signed by ${PROVENANCE.service}`,
+    };
+  }
+
+  const prompt = extracted.prompt ?? "";
+  const provenance = {
+    prompt,
+    promptTruncated: payload.promptTruncated,
+    model: payload.model,
+    size: payload.size,
+    quality: payload.quality,
+    createdAt: payload.createdAt,
+  };
+  // The readable prompt is checked as well, so an edited one is reported
+  const intact =
+    extracted.prompt !== null &&
+    (await sha256Hex(prompt)) === payload.promptSha256 &&
+    (await sha256Hex(toArrayBuffer(extracted.canonical))) ===
+      payload.imageSha256;
+
+  return intact
+    ? {
+        status: "verified",
+        verified: true,
+        provenance,
+        message: `This image was generated by ${PROVENANCE.service} and has not been altered`,
+      }
+    : {
+        status: "altered",
+        verified: false,
+        provenance,
+        message: `This image was generated by ${PROVENANCE.service} but has been altered since`,
+      };
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+function createVerificationResponse(
+  request: Request,
+  result: VerificationResult
+): Response {
+  const rows: string[][] = [
+    ["Field", "Value"],
+    ["Status", result.status],
+  ];
+  if (result.provenance) {
+    rows.push(
+      [
+        "Prompt",
+        result.provenance.promptTruncated
+          ? `${result.provenance.prompt}…`
+          : result.provenance.prompt,
+      ],
+      ["Model", result.provenance.model],
+      ["Size", result.provenance.size],
+      ["Quality", result.provenance.quality],
+      ["Generated at", result.provenance.createdAt]
+    );
+  }
+
+  return createNegotiatedResponse(
+    request,
+    "json",
+    {
+      json: () => result,
+      html: () =>
+        renderHtmlPage(
+          "Image verification",
+          `<h1>Image verification</h1>
+<p${result.verified ? "" : ' class="error"'}>${escapeHtml(result.message)}</p>
+${renderHtmlTable(rows)}`
+        ),
+      text: () =>
+        [
+          result.message,
+          "",
+          ...rows.slice(1).map(([name, value]) => `${name}: ${value}`),
+        ].join("\n"),
+    },
+    { headers: CORS_HEADERS }
+  );
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+/** The image to verify, from an `image` form field or the raw body. */
+async function readUploadedImage(
+  request: Request
+): Promise<ValidationResult<ArrayBuffer>> {
+  const tooLarge = invalid<ArrayBuffer>(
+    "invalid_image",
+    "image",
+    `Images must be at most ${PROVENANCE.maxImageBytes / 1024 / 1024} MB`
+  );
+  const contentType = request.headers.get("Content-Type") || "";
+  const isMultipart = contentType.startsWith("multipart/form-data");
+  const maxBodyBytes =
+    PROVENANCE.maxImageBytes + (isMultipart ? UPLOAD_FORM_OVERHEAD_BYTES : 0);
+  if (Number(request.headers.get("Content-Length")) > maxBodyBytes) {
+    return tooLarge;
+  }
+
+  // Content-Length is optional, so the size is checked while reading
+  const body = await readBodyWithLimit(request.body, maxBodyBytes);
+  if (!body) {
+    return tooLarge;
+  }
+
+  let imageBuffer: ArrayBuffer | null;
+  if (isMultipart) {
+    const form = await new Response(body, {
+      headers: { "Content-Type": contentType },
+    })
+      .formData()
+      .catch(() => null);
+    const image = form?.get("image");
+    if (typeof image === "string") {
+      return invalid(
+        "invalid_image",
+        "image",
+        "Field image must be a file upload"
+      );
+    }
+    imageBuffer = image ? await image.arrayBuffer() : null;
+  } else {
+    imageBuffer = body;
+  }
+
+  if (!imageBuffer || imageBuffer.byteLength === 0) {
+    return invalid(
+      "missing_image",
+      "image",
+      "Send the image as the request body or an image form field"
+    );
+  }
+  if (imageBuffer.byteLength > PROVENANCE.maxImageBytes) {
+    return tooLarge;
+  }
+  return { ok: true, value: imageBuffer };
+}
+
+/**
+ * Checks an uploaded image for a provenance record from this service. Free,
+ * and open to anyone holding an image.
+ */
+export async function handleVerifyRequest(
+  request: Request,
+  env: ExtendedEnv
+): Promise<Response> {
+  const uploaded = await readUploadedImage(request);
+  if (!uploaded.ok) {
+    return createValidationErrorResponse(request, uploaded.error, CORS_HEADERS);
+  }
+
+  const result = await verifyProvenance(
+    getProvenanceSecret(env),
+    uploaded.value
+  );
+  if (!result) {
+    return createValidationErrorResponse(
+      request,
+      {
+        code: "invalid_image",
+        field: "image",
+        message: "Only PNG, JPEG and WebP images can be verified",
+        allowed: ["image/png", "image/jpeg", "image/webp"],
+      },
+      CORS_HEADERS
+    );
+  }
+  return createVerificationResponse(request, result);
+}
@@ -0,0 +1,197 @@
+import { ExtendedEnv } from "./env";
+import { DALL_E_3_PROVIDER, GPT_IMAGE_1_PROVIDER } from "./openai";
+import { createPlaceholderImages, isPlaceholderEnabled } from "./placeholder";
+import { ImageModel, ImageTokenUsage, ModelPricing } from "./pricing";
+import { Background, OutputFormat } from "./schema";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ImageParams {
+  model: ImageModel;
+  prompt: string;
+  size: string;
+  quality: string;
+  outputFormat: OutputFormat;
+  outputCompression: number | null;
+  background: Background;
+}
+
+export interface EditParams extends ImageParams {
+  images: File[];
+  mask: File | null;
+}
+
+export interface GeneratedImage {
+  imageBuffer: ArrayBuffer;
+  usage: ImageTokenUsage | null;
+}
+
+export interface GeneratedImages {
+  imageBuffers: ArrayBuffer[];
+  usage: ImageTokenUsage | null;
+}
+
+export type PartialImageHandler = (
+  imageBuffer: ArrayBuffer,
+  index: number
+) => Promise<void> | void;
+
+/**
+ * Everything the routes need to know about a model: what it accepts, what it
+ * costs and how to call it. Requests are validated against these capabilities
+ * before anything is charged.
+ */
+export interface ImageProvider {
+  model: ImageModel;
+  vendor: string;
+  pricing: ModelPricing;
+  sizes: readonly string[];
+  qualities: readonly string[];
+  defaults: { size: string; quality: string };
+  maxImages: number;
+  formats: readonly OutputFormat[];
+  backgrounds: readonly Background[];
+  buildGenerationRequest(
+    env: ExtendedEnv,
+    params: ImageParams,
+    n: number
+  ): Request;
+  // Null for models that cannot edit images
+  buildEditRequest: ((env: ExtendedEnv, params: EditParams) => Request) | null;
+  decodeResponse(
+    response: Response,
+    expected: number
+  ): Promise<GeneratedImages>;
+  // Null for models that cannot stream partial images
+  streaming: {
+    maxPartialImages: number;
+    buildRequest(
+      env: ExtendedEnv,
+      params: ImageParams,
+      partialImages: number
+    ): Request;
+    decodeStream(
+      response: Response,
+      onPartialImage: PartialImageHandler
+    ): Promise<GeneratedImage>;
+  } | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const PROVIDERS: Record<ImageModel, ImageProvider> = {
+  "gpt-image-1": GPT_IMAGE_1_PROVIDER,
+  "dall-e-3": DALL_E_3_PROVIDER,
+};
+
+// High quality 1536px images can take well over a minute
+const PROVIDER_TIMEOUT_MS = 150_000;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+export function isImageModel(model: string): model is ImageModel {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, model);
+}
+
+export function getProvider(model: ImageModel): ImageProvider {
+  return PROVIDERS[model];
+}
+
+async function sendProviderRequest(
+  provider: ImageProvider,
+  request: Request
+): Promise<Response> {
+  const response = await fetch(request, {
+    signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    throw new Error(`${provider.vendor} API Error: ${errorData}`);
+  }
+
+  return response;
+}
+
+// =============================================================================
+// GENERATION
+// =============================================================================
+
+export async function generateImage(
+  env: ExtendedEnv,
+  params: ImageParams
+): Promise<GeneratedImage> {
+  const { imageBuffers, usage } = await generateImages(env, params, 1);
+  return { imageBuffer: imageBuffers[0], usage };
+}
+
+export async function generateImages(
+  env: ExtendedEnv,
+  params: ImageParams,
+  n: number
+): Promise<GeneratedImages> {
+  if (isPlaceholderEnabled(env)) {
+    return await createPlaceholderImages(params, n);
+  }
+
+  const provider = getProvider(params.model);
+  const response = await sendProviderRequest(
+    provider,
+    provider.buildGenerationRequest(env, params, n)
+  );
+  return await provider.decodeResponse(response, n);
+}
+
+export async function editImage(
+  env: ExtendedEnv,
+  params: EditParams
+): Promise<GeneratedImage> {
+  const provider = getProvider(params.model);
+  if (!provider.buildEditRequest) {
+    throw new Error(`${params.model} does not support image edits`);
+  }
+
+  if (isPlaceholderEnabled(env)) {
+    const { imageBuffers, usage } = await createPlaceholderImages(params, 1);
+    return { imageBuffer: imageBuffers[0], usage };
+  }
+
+  const response = await sendProviderRequest(
+    provider,
+    provider.buildEditRequest(env, params)
+  );
+  const { imageBuffers, usage } = await provider.decodeResponse(response, 1);
+  return { imageBuffer: imageBuffers[0], usage };
+}
+
+/**
+ * Generates one image, passing partial previews to `onPartialImage` as they
+ * arrive. Models that cannot stream, and placeholders, produce no previews.
+ */
+export async function streamImage(
+  env: ExtendedEnv,
+  params: ImageParams,
+  partialImages: number,
+  onPartialImage: PartialImageHandler
+): Promise<GeneratedImage> {
+  const { streaming } = getProvider(params.model);
+  if (!streaming || isPlaceholderEnabled(env)) {
+    return await generateImage(env, params);
+  }
+
+  const response = await sendProviderRequest(
+    getProvider(params.model),
+    streaming.buildRequest(
+      env,
+      params,
+      Math.min(partialImages, streaming.maxPartialImages)
+    )
+  );
+  return await streaming.decodeStream(response, onPartialImage);
+}
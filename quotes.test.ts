@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createQuote, QUOTE_EXPIRY_SECONDS, verifyQuote } from "./quotes";
+import { createSignedToken } from "./signing";
+
+const secret = "quote-secret";
+const key = "/image/cat/1024x1024/low.png";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyQuote", () => {
+  it("accepts a quote for the same user and image", async () => {
+    const { token, quote } = await createQuote(secret, "user", key, 7);
+    expect(await verifyQuote(secret, token, "user", key)).toEqual({
+      ok: true,
+      value: quote,
+    });
+  });
+
+  it("rejects a quote issued to another user", async () => {
+    const { token } = await createQuote(secret, "user", key, 7);
+    const result = await verifyQuote(secret, token, "other", key);
+    expect(!result.ok && result.error.code).toBe("invalid_quote");
+  });
+
+  it("rejects a quote for a different image", async () => {
+    const { token } = await createQuote(secret, "user", key, 7);
+    const result = await verifyQuote(
+      secret,
+      token,
+      "user",
+      "/image/dog/1024x1024/low.png"
+    );
+    expect(!result.ok && result.error.message).toBe(
+      "This quote was issued for a different image"
+    );
+  });
+
+  it("rejects an expired quote", async () => {
+    vi.useFakeTimers();
+    const { token } = await createQuote(secret, "user", key, 7);
+    vi.advanceTimersByTime(QUOTE_EXPIRY_SECONDS * 1000);
+    const result = await verifyQuote(secret, token, "user", key);
+    expect(!result.ok && result.error.code).toBe("quote_expired");
+  });
+
+  it("rejects a quote with a changed price", async () => {
+    const { token } = await createQuote(secret, "user", key, 7);
+    const [encoded, signature] = token.split(".");
+    const payload = JSON.parse(
+      atob(encoded.replace(/-/g, "+").replace(/_/g, "/"))
+    );
+    const forged = btoa(JSON.stringify({ ...payload, priceInCents: 1 }))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+
+    const result = await verifyQuote(
+      secret,
+      `${forged}.${signature}`,
+      "user",
+      key
+    );
+    expect(!result.ok && result.error.code).toBe("invalid_quote");
+  });
+
+  it("rejects a quote signed with another secret", async () => {
+    const { token } = await createQuote("other-secret", "user", key, 7);
+    const result = await verifyQuote(secret, token, "user", key);
+    expect(!result.ok && result.error.code).toBe("invalid_quote");
+  });
+
+  it("rejects a token signed for another purpose", async () => {
+    const { quote } = await createQuote(secret, "user", key, 7);
+    const token = await createSignedToken(secret, "provenance", quote);
+    const result = await verifyQuote(secret, token, "user", key);
+    expect(!result.ok && result.error.code).toBe("invalid_quote");
+  });
+});
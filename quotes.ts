@@ -0,0 +1,77 @@
+import { invalid, ValidationResult } from "./schema";
+import { createSignedToken, verifySignedToken } from "./signing";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A price promised to one user for one canonical image key. `expires` is in
+ * Unix seconds.
+ */
+export interface Quote {
+  type: "quote";
+  userId: string;
+  key: string;
+  priceInCents: number;
+  expires: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const QUOTE_PARAM = "quote";
+
+export const QUOTE_EXPIRY_SECONDS = 15 * 60;
+
+// =============================================================================
+// QUOTES
+// =============================================================================
+
+export async function createQuote(
+  secret: string,
+  userId: string,
+  key: string,
+  priceInCents: number
+): Promise<{ token: string; quote: Quote }> {
+  const quote: Quote = {
+    type: "quote",
+    userId,
+    key,
+    priceInCents,
+    expires: Math.floor(Date.now() / 1000) + QUOTE_EXPIRY_SECONDS,
+  };
+  return { token: await createSignedToken(secret, "quote", quote), quote };
+}
+
+/**
+ * Accepts a quote only for the user it was issued to, for exactly the image it
+ * priced, and before it expires.
+ */
+export async function verifyQuote(
+  secret: string,
+  token: string,
+  userId: string,
+  key: string
+): Promise<ValidationResult<Quote>> {
+  const quote = await verifySignedToken<Quote>(secret, "quote", token);
+  if (!quote || quote.type !== "quote" || quote.userId !== userId) {
+    return invalid("invalid_quote", QUOTE_PARAM, "Invalid quote");
+  }
+  if (quote.key !== key) {
+    return invalid(
+      "invalid_quote",
+      QUOTE_PARAM,
+      "This quote was issued for a different image"
+    );
+  }
+  if (quote.expires <= Math.floor(Date.now() / 1000)) {
+    return invalid(
+      "quote_expired",
+      QUOTE_PARAM,
+      "This quote has expired. Request a new one from /cost"
+    );
+  }
+  return { ok: true, value: quote };
+}
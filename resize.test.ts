@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { decodePng, encodePng } from "./png";
+import { getDerivativeKey, resizeImage, validateResize } from "./resize";
+
+const key = "/image/cat/1024x1024/low.png";
+
+async function resize(
+  width: number,
+  height: number,
+  pixels: number[],
+  params: Parameters<typeof resizeImage>[1],
+  alpha = false
+) {
+  const png = await encodePng(width, height, new Uint8Array(pixels), alpha);
+  const resized = await resizeImage(png, params);
+  return await decodePng(new Uint8Array(resized!));
+}
+
+describe("validateResize", () => {
+  it("serves the original when no dimension is set", () => {
+    expect(validateResize(new URLSearchParams())).toEqual({
+      ok: true,
+      value: null,
+    });
+  });
+
+  it("defaults to contain", () => {
+    expect(validateResize(new URLSearchParams("width=256"))).toEqual({
+      ok: true,
+      value: { width: 256, height: null, fit: "contain" },
+    });
+  });
+
+  it("rejects invalid dimensions and fits", () => {
+    for (const query of [
+      "width=0",
+      "width=2049",
+      "height=1.5",
+      "width=abc",
+      "width=256&fit=squash",
+      "fit=cover",
+    ]) {
+      const result = validateResize(new URLSearchParams(query));
+      expect(!result.ok && result.error.code).toBe("invalid_resize");
+    }
+  });
+});
+
+describe("getDerivativeKey", () => {
+  it("adds the size before the extension, and the fit only with both", () => {
+    expect(
+      getDerivativeKey(key, { width: 256, height: null, fit: "cover" })
+    ).toBe("/image/cat/1024x1024/low-w256.png");
+    expect(
+      getDerivativeKey(key, { width: 256, height: 128, fit: "cover" })
+    ).toBe("/image/cat/1024x1024/low-w256-h128-cover.png");
+  });
+});
+
+describe("resizeImage", () => {
+  // 4x2 RGB: a red left half and a blue right half
+  const halves = [
+    ...[255, 0, 0, 255, 0, 0, 0, 0, 255, 0, 0, 255],
+    ...[255, 0, 0, 255, 0, 0, 0, 0, 255, 0, 0, 255],
+  ];
+
+  it("keeps the aspect ratio when only one dimension is set", async () => {
+    const resized = await resize(4, 2, halves, {
+      width: 2,
+      height: null,
+      fit: "contain",
+    });
+    expect(resized).toMatchObject({ width: 2, height: 1, hasAlpha: false });
+    expect([...resized!.pixels]).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it("fits inside, fills or covers the requested box", async () => {
+    const box = { width: 2, height: 2 };
+    expect(
+      await resize(4, 2, halves, { ...box, fit: "contain" })
+    ).toMatchObject({ width: 2, height: 1 });
+    expect(await resize(4, 2, halves, { ...box, fit: "fill" })).toMatchObject({
+      width: 2,
+      height: 2,
+    });
+
+    // Cover crops the sides, keeping the center columns
+    const covered = await resize(4, 2, halves, { ...box, fit: "cover" });
+    expect(covered).toMatchObject({ width: 2, height: 2 });
+    expect([...covered!.pixels.subarray(0, 8)]).toEqual([
+      255, 0, 0, 255, 0, 0, 255, 255,
+    ]);
+  });
+
+  it("averages the pixels an output pixel covers", async () => {
+    const resized = await resize(2, 1, [200, 0, 0, 0, 100, 50], {
+      width: 1,
+      height: 1,
+      fit: "fill",
+    });
+    expect([...resized!.pixels]).toEqual([100, 50, 25, 255]);
+  });
+
+  it("keeps transparency without darkening next to transparent pixels", async () => {
+    const resized = await resize(
+      2,
+      1,
+      [255, 255, 255, 255, 0, 0, 0, 0],
+      { width: 1, height: 1, fit: "fill" },
+      true
+    );
+    expect(resized?.hasAlpha).toBe(true);
+    expect([...resized!.pixels]).toEqual([255, 255, 255, 128]);
+  });
+
+  it("returns null for images it cannot decode", async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]).buffer;
+    expect(
+      await resizeImage(jpeg, { width: 1, height: null, fit: "contain" })
+    ).toBeNull();
+  });
+});
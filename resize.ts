@@ -0,0 +1,306 @@
+import { decodePng, DecodedPng, encodePng } from "./png";
+import { invalid, ValidationResult } from "./schema";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ResizeFit = (typeof RESIZE.fits)[number];
+
+/** A missing width or height follows the original's aspect ratio. */
+export interface ResizeParams {
+  width: number | null;
+  height: number | null;
+  fit: ResizeFit;
+}
+
+// The part of the original a derivative is made from
+interface SourceRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const RESIZE = {
+  // contain fits inside the box, cover fills it and crops the overflow,
+  // fill stretches to it
+  fits: ["contain", "cover", "fill"],
+  maxDimension: 2048,
+  defaults: { fit: "contain" },
+} as const;
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function parseDimension(
+  value: string | null,
+  field: string
+): ValidationResult<number | null> {
+  if (value === null || value === "") {
+    return { ok: true, value: null };
+  }
+  const dimension = Number(value);
+  if (
+    !Number.isInteger(dimension) ||
+    dimension < 1 ||
+    dimension > RESIZE.maxDimension
+  ) {
+    return invalid(
+      "invalid_resize",
+      field,
+      `${field} must be a whole number of pixels from 1 to ${RESIZE.maxDimension}`
+    );
+  }
+  return { ok: true, value: dimension };
+}
+
+/**
+ * Validates `width`, `height` and `fit`. Returns null when none is set, so
+ * the original is served.
+ */
+export function validateResize(
+  params: URLSearchParams
+): ValidationResult<ResizeParams | null> {
+  const width = parseDimension(params.get("width"), "width");
+  if (!width.ok) {
+    return width;
+  }
+  const height = parseDimension(params.get("height"), "height");
+  if (!height.ok) {
+    return height;
+  }
+
+  const rawFit = params.get("fit");
+  const fit = (rawFit || RESIZE.defaults.fit).toLowerCase() as ResizeFit;
+  if (!RESIZE.fits.includes(fit)) {
+    return invalid("invalid_resize", "fit", `Invalid fit "${rawFit}"`, [
+      ...RESIZE.fits,
+    ]);
+  }
+
+  if (width.value === null && height.value === null) {
+    return rawFit
+      ? invalid("invalid_resize", "fit", "fit needs a width or height")
+      : { ok: true, value: null };
+  }
+  return { ok: true, value: { width: width.value, height: height.value, fit } };
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * R2 key of a derivative, next to its original, e.g.
+ * `/image/cat/1024x1024/low-w256-h256-cover.png`. The fit is only part of
+ * the key when both dimensions are set, as it changes nothing otherwise.
+ */
+export function getDerivativeKey(key: string, resize: ResizeParams): string {
+  const extensionStart = key.lastIndexOf(".");
+  const width = resize.width !== null ? `-w${resize.width}` : "";
+  const height = resize.height !== null ? `-h${resize.height}` : "";
+  const fit =
+    resize.width !== null && resize.height !== null ? `-${resize.fit}` : "";
+  return `${key.slice(0, extensionStart)}${width}${height}${fit}${key.slice(
+    extensionStart
+  )}`;
+}
+
+/** Output size and the region of the original it is sampled from. */
+function getTargetSize(
+  original: { width: number; height: number },
+  resize: ResizeParams
+): { width: number; height: number; region: SourceRegion } {
+  const whole = { x: 0, y: 0, ...original };
+  const scaled = (length: number, scale: number) =>
+    Math.max(1, Math.round(length * scale));
+
+  if (resize.height === null) {
+    const scale = resize.width! / original.width;
+    return {
+      width: resize.width!,
+      height: scaled(original.height, scale),
+      region: whole,
+    };
+  }
+  if (resize.width === null) {
+    const scale = resize.height / original.height;
+    return {
+      width: scaled(original.width, scale),
+      height: resize.height,
+      region: whole,
+    };
+  }
+
+  const widthScale = resize.width / original.width;
+  const heightScale = resize.height / original.height;
+  switch (resize.fit) {
+    case "fill":
+      return { width: resize.width, height: resize.height, region: whole };
+    case "cover": {
+      // Keep the center of the original
+      const scale = Math.max(widthScale, heightScale);
+      const width = resize.width / scale;
+      const height = resize.height / scale;
+      return {
+        width: resize.width,
+        height: resize.height,
+        region: {
+          x: (original.width - width) / 2,
+          y: (original.height - height) / 2,
+          width,
+          height,
+        },
+      };
+    }
+    case "contain": {
+      const scale = Math.min(widthScale, heightScale);
+      return {
+        width: scaled(original.width, scale),
+        height: scaled(original.height, scale),
+        region: whole,
+      };
+    }
+  }
+}
+
+/**
+ * For each output pixel along one axis, the first source pixel it covers and
+ * how much each covered pixel contributes. Weights are the overlap of the
+ * output pixel's footprint with each source pixel, so shrinking averages
+ * every pixel it covers.
+ */
+function getAxisWeights(
+  start: number,
+  length: number,
+  outputLength: number
+): Array<{ first: number; weights: number[] }> {
+  const footprint = length / outputLength;
+  return Array.from({ length: outputLength }, (_, index) => {
+    const from = start + index * footprint;
+    const to = from + footprint;
+    const first = Math.floor(from);
+    const weights: number[] = [];
+    for (let pixel = first; pixel < to; pixel++) {
+      weights.push(
+        (Math.min(to, pixel + 1) - Math.max(from, pixel)) / footprint
+      );
+    }
+    return { first, weights };
+  });
+}
+
+/**
+ * Resamples one region of RGBA pixels, first along rows and then along
+ * columns. Colors are weighted by alpha, so transparent pixels do not darken
+ * the edges next to them.
+ */
+function resample(
+  image: DecodedPng,
+  region: SourceRegion,
+  width: number,
+  height: number
+): Uint8Array {
+  const columns = getAxisWeights(region.x, region.width, width);
+  const rows = getAxisWeights(region.y, region.height, height);
+  const firstRow = rows[0].first;
+  const rowCount = rows[height - 1].first + rows[height - 1].weights.length;
+  const clampX = (x: number) => Math.min(image.width - 1, x);
+  const clampY = (y: number) => Math.min(image.height - 1, y);
+
+  // Premultiplied rows of the output width, for the rows the region covers
+  const horizontal = new Float32Array(width * (rowCount - firstRow) * 4);
+  for (let y = firstRow; y < rowCount; y++) {
+    const sourceRow = clampY(y) * image.width;
+    for (let x = 0; x < width; x++) {
+      const { first, weights } = columns[x];
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const source = (sourceRow + clampX(first + i)) * 4;
+        const weight = (weights[i] * image.pixels[source + 3]) / 255;
+        red += image.pixels[source] * weight;
+        green += image.pixels[source + 1] * weight;
+        blue += image.pixels[source + 2] * weight;
+        alpha += weight;
+      }
+      const target = ((y - firstRow) * width + x) * 4;
+      horizontal[target] = red;
+      horizontal[target + 1] = green;
+      horizontal[target + 2] = blue;
+      horizontal[target + 3] = alpha;
+    }
+  }
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const { first, weights } = rows[y];
+    for (let x = 0; x < width; x++) {
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const source = ((first + i - firstRow) * width + x) * 4;
+        red += horizontal[source] * weights[i];
+        green += horizontal[source + 1] * weights[i];
+        blue += horizontal[source + 2] * weights[i];
+        alpha += horizontal[source + 3] * weights[i];
+      }
+      const target = (y * width + x) * 4;
+      if (alpha > 0) {
+        pixels[target] = Math.round(red / alpha);
+        pixels[target + 1] = Math.round(green / alpha);
+        pixels[target + 2] = Math.round(blue / alpha);
+        pixels[target + 3] = Math.round(alpha * 255);
+      }
+    }
+  }
+  return pixels;
+}
+
+function dropAlpha(pixels: Uint8Array): Uint8Array {
+  const rgb = new Uint8Array((pixels.length / 4) * 3);
+  for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+    rgb[j] = pixels[i];
+    rgb[j + 1] = pixels[i + 1];
+    rgb[j + 2] = pixels[i + 2];
+  }
+  return rgb;
+}
+
+// =============================================================================
+// RESIZING
+// =============================================================================
+
+/**
+ * Decodes a stored PNG and encodes the resized derivative as a PNG, keeping
+ * transparency only if the original has it. Returns null when the image is
+ * not a PNG this can decode.
+ */
+export async function resizeImage(
+  imageBuffer: ArrayBuffer,
+  resize: ResizeParams
+): Promise<ArrayBuffer | null> {
+  const image = await decodePng(new Uint8Array(imageBuffer));
+  if (!image) {
+    return null;
+  }
+
+  const { width, height, region } = getTargetSize(image, resize);
+  const pixels = resample(image, region, width, height);
+  return await encodePng(
+    width,
+    height,
+    image.hasAlpha ? pixels : dropAlpha(pixels),
+    image.hasAlpha
+  );
+}
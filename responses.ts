@@ -0,0 +1,91 @@
+import type { RefundRecord } from "./billing";
+import { createNegotiatedErrorResponse } from "./negotiation";
+import { formatCents } from "./pricing";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, Cookie, Idempotency-Key",
+  "Access-Control-Expose-Headers":
+    "X-Cost-Estimated, X-Cost-Charged, X-Signed-Url, X-Quote, X-Quote-Expires, Idempotent-Replayed",
+  "Access-Control-Max-Age": "86400",
+} as const;
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+export function createJsonResponse(
+  body: unknown,
+  status: number = 200
+): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ...CORS_HEADERS,
+    },
+  });
+}
+
+export function createErrorResponse(
+  request: Request,
+  message: string,
+  status: number = 400,
+  code: string = "invalid_request"
+): Response {
+  if (status === 405) {
+    return createNegotiatedErrorResponse(
+      request,
+      status,
+      { error: message, code: "method_not_allowed" },
+      { Allow: "GET, POST, DELETE, OPTIONS", ...CORS_HEADERS }
+    );
+  }
+
+  return createNegotiatedErrorResponse(
+    request,
+    status,
+    {
+      error: message,
+      code,
+      usage:
+        "Use: /cost/prompt[/size][/quality] or /image/prompt[/size][/quality], or POST /edit with multipart/form-data",
+      examples: [
+        "/cost/cat",
+        "/cost/cat/1024x1024",
+        "/cost/cat/1024x1024/high",
+        "/image/cat",
+        "/image/cat/1024x1024/high",
+      ],
+    },
+    CORS_HEADERS
+  );
+}
+
+export function createRefundResponse(
+  request: Request,
+  refund: RefundRecord
+): Response {
+  return createNegotiatedErrorResponse(
+    request,
+    502,
+    {
+      error: `Image generation failed: ${refund.reason}`,
+      code: "generation_failed",
+      refunded: refund.refunded,
+      refundAmount: formatCents(refund.amountInCents),
+      refundId: refund.id,
+      message: refund.refunded
+        ? "Your balance has been refunded for this request."
+        : `Refund failed, please contact support with refund id ${refund.id}: ${refund.message}`,
+    },
+    CORS_HEADERS
+  );
+}
@@ -0,0 +1,328 @@
+import { ExtendedEnv } from "./env";
+import { pruneHistory } from "./history";
+import { IDEMPOTENCY_PREFIX } from "./idempotency";
+import { getOwnerPrefixes, parseImageObjectMetadata } from "./storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Null switches a rule off. */
+export interface RetentionPolicy {
+  retentionDays: number | null;
+  userQuotaBytes: number | null;
+}
+
+export type RemovalReason = "expired" | "over_quota" | "idempotency_expired";
+
+export interface CleanupReport {
+  id: string;
+  policy: RetentionPolicy;
+  scanned: number;
+  scannedBytes: number;
+  removed: Record<RemovalReason, number>;
+  freedBytes: number;
+  // History entries deleted because their image was
+  prunedHistoryEntries: number;
+  // Whether this run reached the end of the bucket, so the next starts over
+  sweepCompleted: boolean;
+  // The first removed keys, enough to spot-check a run
+  keys: Array<{ key: string; reason: RemovalReason; size: number }>;
+  startedAt: string;
+  finishedAt: string;
+}
+
+interface StoredImage {
+  key: string;
+  size: number;
+  uploaded: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const CLEANUP_PREFIX = "cleanup/";
+
+// Where the next run continues listing the bucket
+export const CLEANUP_CURSOR_KEY = "cleanup-cursor";
+
+export const CLEANUP = {
+  // Listed pages hold up to 1000 objects, so each run scans up to 10,000
+  pagesPerRun: 10,
+  // R2 deletes at most 1000 keys per call
+  deleteBatchSize: 1000,
+  maxReportedKeys: 1000,
+  maxListedReports: 30,
+} as const;
+
+const DAY_MS = 86_400_000;
+
+const OWNER_EXCLUSIVE_PREFIXES = ["/private/", "/generations/"];
+
+// Larger than any millisecond timestamp, so newer reports sort first
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+function parsePositiveNumber(value: string | undefined): number | null {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Reads `IMAGE_RETENTION_DAYS` and `USER_STORAGE_QUOTA_MB`. Images are kept
+ * forever, and without a quota, unless they are set.
+ */
+export function getRetentionPolicy(env: ExtendedEnv): RetentionPolicy {
+  const quotaInMegabytes = parsePositiveNumber(env.USER_STORAGE_QUOTA_MB);
+  return {
+    retentionDays: parsePositiveNumber(env.IMAGE_RETENTION_DAYS),
+    userQuotaBytes:
+      quotaInMegabytes === null
+        ? null
+        : Math.floor(quotaInMegabytes * 1024 * 1024),
+  };
+}
+
+// Generated images are the only keys with a leading slash
+function isImageKey(key: string): boolean {
+  return key.startsWith("/");
+}
+
+/**
+ * Private images and `/generations/` images, which are stored under a random
+ * key for one response, are only ever served to the user who generated them.
+ * Other images are a cache shared by everyone who asks for the same thing.
+ */
+function isOwnerExclusiveKey(key: string): boolean {
+  return OWNER_EXCLUSIVE_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+/** The newest images that fit in the quota are kept, the rest are returned. */
+function getImagesOverQuota(
+  images: StoredImage[],
+  quotaBytes: number
+): StoredImage[] {
+  let usedBytes = 0;
+  return [...images]
+    .sort((a, b) => b.uploaded - a.uploaded)
+    .filter((image) => {
+      usedBytes += image.size;
+      return usedBytes > quotaBytes;
+    });
+}
+
+/** Every image under the user's own prefixes, however many pages it takes. */
+async function listOwnerImages(
+  env: ExtendedEnv,
+  userId: string
+): Promise<StoredImage[]> {
+  const images: StoredImage[] = [];
+  for (const prefix of await getOwnerPrefixes(env, userId)) {
+    let cursor: string | undefined;
+    do {
+      const listed = await env.stripeimages.list({ prefix, cursor });
+      for (const object of listed.objects) {
+        images.push({
+          key: object.key,
+          size: object.size,
+          uploaded: object.uploaded.getTime(),
+        });
+      }
+      cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+  }
+  return images;
+}
+
+function addDeletedImage(
+  deletedByUser: Map<string, Set<string>>,
+  userId: string,
+  key: string
+): void {
+  const keys = deletedByUser.get(userId) ?? new Set<string>();
+  keys.add(key);
+  deletedByUser.set(userId, keys);
+}
+
+async function deleteKeys(bucket: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += CLEANUP.deleteBatchSize) {
+    await bucket.delete(keys.slice(i, i + CLEANUP.deleteBatchSize));
+  }
+}
+
+// =============================================================================
+// CLEANUP
+// =============================================================================
+
+/**
+ * Deletes images past the retention period, each user's oldest images beyond
+ * their storage quota and expired idempotency records. Each run lists up to
+ * `CLEANUP.pagesPerRun` pages of the bucket, continuing where the last run
+ * stopped, and starts over once it reaches the end. Only images exclusive to
+ * one user count towards their quota; the whole quota of every user seen in
+ * a run is checked. Shared images and images stored without metadata only
+ * ever expire. History entries of deleted images are deleted with them. Run
+ * from the cron trigger.
+ */
+export async function runCleanup(env: ExtendedEnv): Promise<CleanupReport> {
+  const startedAt = new Date();
+  const policy = getRetentionPolicy(env);
+  const expiredBefore =
+    policy.retentionDays === null
+      ? null
+      : startedAt.getTime() - policy.retentionDays * DAY_MS;
+
+  const removals: Array<{ key: string; reason: RemovalReason; size: number }> =
+    [];
+  // Users with images only served to them, whose quota is checked
+  const owners = new Set<string>();
+  // Deleted images by the user whose history lists them
+  const deletedByUser = new Map<string, Set<string>>();
+  let scanned = 0;
+  let scannedBytes = 0;
+
+  const storedCursor = await env.stripeimages.get(CLEANUP_CURSOR_KEY);
+  let cursor = (await storedCursor?.text()) || undefined;
+  for (let page = 0; page < CLEANUP.pagesPerRun; page++) {
+    const listed = await env.stripeimages.list({
+      cursor,
+      include: ["customMetadata"],
+    });
+
+    for (const object of listed.objects) {
+      scanned += 1;
+      scannedBytes += object.size;
+
+      if (object.key.startsWith(IDEMPOTENCY_PREFIX)) {
+        const expiresAt = Date.parse(object.customMetadata?.expiresAt || "");
+        if (expiresAt <= startedAt.getTime()) {
+          removals.push({
+            key: object.key,
+            reason: "idempotency_expired",
+            size: object.size,
+          });
+        }
+        continue;
+      }
+      if (!isImageKey(object.key)) {
+        continue;
+      }
+
+      const metadata = parseImageObjectMetadata(object.customMetadata);
+      const uploaded = object.uploaded.getTime();
+      if (expiredBefore !== null && uploaded < expiredBefore) {
+        removals.push({
+          key: object.key,
+          reason: "expired",
+          size: object.size,
+        });
+        if (metadata) {
+          addDeletedImage(deletedByUser, metadata.userId, object.key);
+        }
+        continue;
+      }
+
+      // Deleting a shared image would take it from everyone using it
+      if (metadata && isOwnerExclusiveKey(object.key)) {
+        owners.add(metadata.userId);
+      }
+    }
+
+    cursor = listed.truncated ? listed.cursor : undefined;
+    if (!cursor) {
+      break;
+    }
+  }
+
+  if (policy.userQuotaBytes !== null) {
+    const removedKeys = new Set(removals.map((removal) => removal.key));
+    for (const userId of owners) {
+      const images = (await listOwnerImages(env, userId)).filter(
+        (image) => !removedKeys.has(image.key)
+      );
+      for (const image of getImagesOverQuota(images, policy.userQuotaBytes)) {
+        removals.push({
+          key: image.key,
+          reason: "over_quota",
+          size: image.size,
+        });
+        addDeletedImage(deletedByUser, userId, image.key);
+      }
+    }
+  }
+
+  await deleteKeys(
+    env.stripeimages,
+    removals.map((removal) => removal.key)
+  );
+
+  let prunedHistoryEntries = 0;
+  for (const [userId, keys] of deletedByUser) {
+    prunedHistoryEntries += await pruneHistory(env.stripeimages, userId, keys);
+  }
+
+  // Only saved once this run's pages are dealt with, so a failed run is
+  // repeated rather than skipped
+  if (cursor) {
+    await env.stripeimages.put(CLEANUP_CURSOR_KEY, cursor);
+  } else {
+    await env.stripeimages.delete(CLEANUP_CURSOR_KEY);
+  }
+
+  const finishedAt = new Date();
+  const countRemovals = (reason: RemovalReason) =>
+    removals.filter((removal) => removal.reason === reason).length;
+  const invertedTimestamp = String(
+    MAX_TIMESTAMP - startedAt.getTime()
+  ).padStart(13, "0");
+  const report: CleanupReport = {
+    id: `${invertedTimestamp}-${crypto.randomUUID()}`,
+    policy,
+    scanned,
+    scannedBytes,
+    removed: {
+      expired: countRemovals("expired"),
+      over_quota: countRemovals("over_quota"),
+      idempotency_expired: countRemovals("idempotency_expired"),
+    },
+    freedBytes: removals.reduce((total, removal) => total + removal.size, 0),
+    prunedHistoryEntries,
+    sweepCompleted: cursor === undefined,
+    keys: removals.slice(0, CLEANUP.maxReportedKeys),
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+  };
+
+  console.log(
+    `Cleanup ${report.id}: removed ${removals.length} of ${scanned} objects, freed ${report.freedBytes} bytes`
+  );
+
+  await env.stripeimages.put(
+    `${CLEANUP_PREFIX}${report.id}.json`,
+    JSON.stringify(report),
+    { httpMetadata: { contentType: "application/json" } }
+  );
+
+  return report;
+}
+
+/** The most recent cleanup reports, newest first. */
+export async function listCleanupReports(
+  bucket: R2Bucket
+): Promise<CleanupReport[]> {
+  const listed = await bucket.list({
+    prefix: CLEANUP_PREFIX,
+    limit: CLEANUP.maxListedReports,
+  });
+  const reports = await Promise.all(
+    listed.objects.map(async (object) => {
+      const stored = await bucket.get(object.key);
+      return stored ? await stored.json<CleanupReport>() : null;
+    })
+  );
+  return reports.filter((report): report is CleanupReport => report !== null);
+}
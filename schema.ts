@@ -0,0 +1,404 @@
+import { IMAGE_MODELS, PRICING, ImageModel } from "./pricing";
+import { createNegotiatedErrorResponse } from "./negotiation";
+import { getProvider, isImageModel } from "./providers";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ValidationErrorCode =
+  | "missing_prompt"
+  | "prompt_too_long"
+  | "invalid_size"
+  | "invalid_quality"
+  | "invalid_n"
+  | "invalid_format"
+  | "invalid_compression"
+  | "invalid_background"
+  | "invalid_visibility"
+  | "invalid_callback_url"
+  | "invalid_partial_images"
+  | "invalid_bundle"
+  | "invalid_limit"
+  | "invalid_idempotency_key"
+  | "invalid_quote"
+  | "quote_expired"
+  | "invalid_model"
+  | "invalid_response_format"
+  | "missing_image"
+  | "too_many_images"
+  | "invalid_image"
+  | "invalid_source"
+  | "invalid_date_range"
+  | "invalid_resize";
+
+export interface ValidationError {
+  code: ValidationErrorCode;
+  field: string;
+  message: string;
+  allowed?: ReadonlyArray<string | number>;
+}
+
+/** Untrusted request values as they arrive from a path, query or form. */
+export interface RawImageRequest {
+  model?: string | null;
+  prompt?: string | null;
+  size?: string | null;
+  quality?: string | null;
+  n?: string | number | null;
+  format?: string | null;
+  compression?: string | number | null;
+  background?: string | null;
+}
+
+export type OutputFormat = keyof typeof OUTPUT_FORMATS;
+
+export type Background = (typeof IMAGE_REQUEST_SCHEMA.backgrounds)[number];
+
+export interface ImageRequest {
+  model: ImageModel;
+  prompt: string;
+  size: string;
+  quality: string;
+  n: number;
+  outputFormat: OutputFormat;
+  outputCompression: number | null;
+  background: Background;
+}
+
+export type Visibility = (typeof IMAGE_REQUEST_SCHEMA.visibilities)[number];
+
+export type BundleFormat = (typeof IMAGE_REQUEST_SCHEMA.bundles)[number];
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ValidationError };
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const OUTPUT_FORMATS = {
+  png: { contentType: "image/png", extension: "png" },
+  jpeg: { contentType: "image/jpeg", extension: "jpg" },
+  webp: { contentType: "image/webp", extension: "webp" },
+} as const;
+
+export const IMAGE_REQUEST_SCHEMA = {
+  // Sizes, qualities and the maximum n depend on the model's provider
+  models: IMAGE_MODELS,
+  prompt: { maxLength: 32_000 },
+  n: { min: 1 },
+  images: { max: 16 },
+  formats: Object.keys(OUTPUT_FORMATS) as OutputFormat[],
+  compression: { min: 0, max: 100 },
+  partialImages: { min: 0, max: 3 },
+  backgrounds: ["auto", "transparent", "opaque"],
+  visibilities: ["public", "private"],
+  // How a batch of images is returned
+  bundles: ["json", "sheet", "zip"],
+  // Formats that can carry an alpha channel
+  transparentFormats: ["png", "webp"],
+  defaults: {
+    model: PRICING.DEFAULT_MODEL,
+    n: 1,
+    partialImages: 2,
+    format: "png",
+    background: "auto",
+  },
+} as const;
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export function invalid<T>(
+  code: ValidationErrorCode,
+  field: string,
+  message: string,
+  allowed?: ReadonlyArray<string | number>
+): ValidationResult<T> {
+  return { ok: false, error: { code, field, message, allowed } };
+}
+
+/**
+ * Validates and normalises image generation parameters, applying defaults for
+ * missing values. Shared by every route so nothing unpriced is ever charged or
+ * forwarded to a provider.
+ */
+export function validateImageRequest(
+  raw: RawImageRequest
+): ValidationResult<ImageRequest> {
+  const schema = IMAGE_REQUEST_SCHEMA;
+
+  const model = raw.model || schema.defaults.model;
+  if (!isImageModel(model)) {
+    return invalid(
+      "invalid_model",
+      "model",
+      `Invalid model "${model}"`,
+      schema.models
+    );
+  }
+  const provider = getProvider(model);
+
+  const prompt = raw.prompt?.trim() || "";
+  if (!prompt) {
+    return invalid("missing_prompt", "prompt", "A prompt is required");
+  }
+  if (prompt.length > schema.prompt.maxLength) {
+    return invalid(
+      "prompt_too_long",
+      "prompt",
+      `Prompt must be at most ${schema.prompt.maxLength} characters`
+    );
+  }
+
+  const size = raw.size || provider.defaults.size;
+  if (!provider.sizes.includes(size)) {
+    return invalid(
+      "invalid_size",
+      "size",
+      `Invalid size "${size}" for ${model}`,
+      provider.sizes
+    );
+  }
+
+  const quality = (raw.quality || provider.defaults.quality).toLowerCase();
+  if (!provider.qualities.includes(quality)) {
+    return invalid(
+      "invalid_quality",
+      "quality",
+      `Invalid quality "${quality}" for ${model}`,
+      provider.qualities
+    );
+  }
+
+  const n =
+    raw.n === null || raw.n === undefined || raw.n === ""
+      ? schema.defaults.n
+      : Number(raw.n);
+  if (!Number.isInteger(n) || n < schema.n.min || n > provider.maxImages) {
+    return invalid(
+      "invalid_n",
+      "n",
+      `n must be a whole number between ${schema.n.min} and ${provider.maxImages} for ${model}`
+    );
+  }
+
+  const format = (raw.format || schema.defaults.format).toLowerCase();
+  const outputFormat = (format === "jpg" ? "jpeg" : format) as OutputFormat;
+  if (!schema.formats.includes(outputFormat)) {
+    return invalid(
+      "invalid_format",
+      "format",
+      `Invalid format "${format}"`,
+      schema.formats
+    );
+  }
+  if (!provider.formats.includes(outputFormat)) {
+    return invalid(
+      "invalid_format",
+      "format",
+      `${model} does not support ${outputFormat} output`,
+      provider.formats
+    );
+  }
+
+  let outputCompression: number | null = null;
+  if (raw.compression !== null && raw.compression !== undefined) {
+    outputCompression = Number(raw.compression);
+    if (outputFormat === "png") {
+      return invalid(
+        "invalid_compression",
+        "compression",
+        "Compression is only supported for jpeg and webp output"
+      );
+    }
+    if (
+      raw.compression === "" ||
+      !Number.isInteger(outputCompression) ||
+      outputCompression < schema.compression.min ||
+      outputCompression > schema.compression.max
+    ) {
+      return invalid(
+        "invalid_compression",
+        "compression",
+        `Compression must be a whole number between ${schema.compression.min} and ${schema.compression.max}`
+      );
+    }
+  }
+
+  const background = (
+    raw.background || schema.defaults.background
+  ).toLowerCase() as Background;
+  if (!provider.backgrounds.includes(background)) {
+    return invalid(
+      "invalid_background",
+      "background",
+      `Invalid background "${background}" for ${model}`,
+      provider.backgrounds
+    );
+  }
+  if (
+    background === "transparent" &&
+    !(schema.transparentFormats as readonly string[]).includes(outputFormat)
+  ) {
+    return invalid(
+      "invalid_background",
+      "background",
+      "A transparent background requires png or webp output",
+      schema.transparentFormats
+    );
+  }
+
+  return {
+    ok: true,
+    value: {
+      model,
+      prompt,
+      size,
+      quality,
+      n,
+      outputFormat,
+      outputCompression,
+      background,
+    },
+  };
+}
+
+/**
+ * Private images are stored per owner and only served to them or through a
+ * signed URL; public ones are shared by everyone requesting the same image.
+ */
+export function validateVisibility(
+  raw: string | null | undefined
+): ValidationResult<Visibility> {
+  const visibility = (raw || "public").toLowerCase() as Visibility;
+  if (!IMAGE_REQUEST_SCHEMA.visibilities.includes(visibility)) {
+    return invalid(
+      "invalid_visibility",
+      "visibility",
+      `Invalid visibility "${visibility}"`,
+      IMAGE_REQUEST_SCHEMA.visibilities
+    );
+  }
+  return { ok: true, value: visibility };
+}
+
+/**
+ * Number of previews to stream before the final image. Models that cannot
+ * stream simply send none.
+ */
+export function validatePartialImages(
+  raw: string | null | undefined
+): ValidationResult<number> {
+  const { min, max } = IMAGE_REQUEST_SCHEMA.partialImages;
+  const partialImages = raw
+    ? Number(raw)
+    : IMAGE_REQUEST_SCHEMA.defaults.partialImages;
+  if (
+    !Number.isInteger(partialImages) ||
+    partialImages < min ||
+    partialImages > max
+  ) {
+    return invalid(
+      "invalid_partial_images",
+      "partial_images",
+      `partial_images must be a whole number between ${min} and ${max}`
+    );
+  }
+  return { ok: true, value: partialImages };
+}
+
+/**
+ * How a batch is returned: a JSON list of URLs, an HTML contact sheet or a ZIP
+ * of the images. Without a choice, `fallback` is used.
+ */
+export function validateBundle(
+  raw: string | null | undefined,
+  fallback: BundleFormat
+): ValidationResult<BundleFormat> {
+  const bundle = (raw || fallback).toLowerCase() as BundleFormat;
+  if (!IMAGE_REQUEST_SCHEMA.bundles.includes(bundle)) {
+    return invalid(
+      "invalid_bundle",
+      "bundle",
+      `Invalid bundle "${bundle}"`,
+      IMAGE_REQUEST_SCHEMA.bundles
+    );
+  }
+  return { ok: true, value: bundle };
+}
+
+/**
+ * Webhook targets must be absolute https URLs so signed results are never sent
+ * in the clear.
+ */
+export function validateCallbackUrl(
+  raw: string | null | undefined
+): ValidationResult<string | null> {
+  if (!raw) {
+    return { ok: true, value: null };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return invalid(
+      "invalid_callback_url",
+      "callback_url",
+      "callback_url must be a valid URL"
+    );
+  }
+  if (url.protocol !== "https:") {
+    return invalid(
+      "invalid_callback_url",
+      "callback_url",
+      "callback_url must use https"
+    );
+  }
+  return { ok: true, value: url.toString() };
+}
+
+/**
+ * Reads the model and output options shared by every route from query
+ * parameters, so they read the same on the path and query string APIs.
+ */
+export function getOutputOptions(
+  searchParams: URLSearchParams
+): Pick<
+  RawImageRequest,
+  "model" | "n" | "format" | "compression" | "background"
+> {
+  return {
+    model: searchParams.get("model"),
+    n: searchParams.get("n"),
+    format: searchParams.get("format"),
+    compression: searchParams.get("compression"),
+    background: searchParams.get("background"),
+  };
+}
+
+// =============================================================================
+// RESPONSE HANDLERS
+// =============================================================================
+
+export function createValidationErrorResponse(
+  request: Request,
+  error: ValidationError,
+  headers: Record<string, string> = {}
+): Response {
+  return createNegotiatedErrorResponse(
+    request,
+    400,
+    {
+      error: error.message,
+      code: error.code,
+      field: error.field,
+      ...(error.allowed && { allowed: error.allowed }),
+    },
+    headers
+  );
+}
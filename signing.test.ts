@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createKeyedDigest,
+  createSignedToken,
+  createSignedUrl,
+  verifySignedToken,
+  verifySignedUrl,
+} from "./signing";
+
+const secret = "signing-secret";
+const origin = "https://image.brubslabs.com";
+const key = "/private/0123/image/cat/1024x1024/low.png";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("signed URLs", () => {
+  it("grant access to the signed key until they expire", async () => {
+    vi.useFakeTimers();
+    const url = new URL(await createSignedUrl(secret, origin, key, 60));
+    expect(await verifySignedUrl(secret, url)).toEqual({
+      key,
+      remainingSeconds: 60,
+    });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await verifySignedUrl(secret, url)).toBeNull();
+  });
+
+  it("are rejected for another key, expiry or secret", async () => {
+    const url = new URL(await createSignedUrl(secret, origin, key));
+
+    const otherKey = new URL(url);
+    otherKey.pathname = otherKey.pathname.replace("cat", "dog");
+    const extended = new URL(url);
+    extended.searchParams.set(
+      "expires",
+      String(Number(url.searchParams.get("expires")) + 3600)
+    );
+
+    expect(await verifySignedUrl(secret, otherKey)).toBeNull();
+    expect(await verifySignedUrl(secret, extended)).toBeNull();
+    expect(await verifySignedUrl("other-secret", url)).toBeNull();
+  });
+});
+
+describe("signing purposes", () => {
+  it("keep tokens for one purpose from verifying for another", async () => {
+    const token = await createSignedToken(secret, "quote", { key });
+    expect(await verifySignedToken(secret, "quote", token)).toEqual({ key });
+    expect(await verifySignedToken(secret, "provenance", token)).toBeNull();
+  });
+
+  it("derive different digests of the same message", async () => {
+    expect(await createKeyedDigest(secret, "private-key", "user")).not.toBe(
+      await createKeyedDigest(secret, "generations", "user")
+    );
+  });
+});
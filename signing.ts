@@ -0,0 +1,269 @@
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What a signature is for. It is signed along with the message, so one made
+ * for one purpose is never accepted for another although they share a secret.
+ */
+export type SigningPurpose =
+  | "signed-url"
+  | "quote"
+  | "provenance"
+  | "private-key"
+  | "generations";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const SIGNED_URL_PREFIX = "/signed";
+
+export const SIGNED_URL_EXPIRY_SECONDS = {
+  default: 3600,
+  max: 7 * 24 * 3600,
+} as const;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+async function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const input =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", input));
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  if (!/^([0-9a-f]{2})+$/.test(hex)) {
+    return null;
+  }
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    return new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    );
+  } catch {
+    return null;
+  }
+}
+
+function getSignedMessage(
+  purpose: SigningPurpose,
+  message: string
+): Uint8Array {
+  return new TextEncoder().encode(`${purpose}\n${message}`);
+}
+
+function getSignedPayload(key: string, expires: number): Uint8Array {
+  return getSignedMessage("signed-url", `${key}\n${expires}`);
+}
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * Creates a URL that serves the R2 object `key` until `expiresInSeconds` have
+ * passed, without requiring the owner's access token.
+ */
+export async function createSignedUrl(
+  secret: string,
+  origin: string,
+  key: string,
+  expiresInSeconds: number = SIGNED_URL_EXPIRY_SECONDS.default
+): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importSigningKey(secret),
+    getSignedPayload(key, expires)
+  );
+  return `${origin}${SIGNED_URL_PREFIX}${key}?expires=${expires}&signature=${toHex(
+    signature
+  )}`;
+}
+
+/**
+ * Derives a stable hex value from `message` that cannot be guessed without
+ * `secret`, e.g. to put in storage keys.
+ */
+export async function createKeyedDigest(
+  secret: string,
+  purpose: SigningPurpose,
+  message: string
+): Promise<string> {
+  return toHex(
+    await crypto.subtle.sign(
+      "HMAC",
+      await importSigningKey(secret),
+      getSignedMessage(purpose, message)
+    )
+  );
+}
+
+/**
+ * A random secret for signing one job's webhooks. It is handed to the job's
+ * owner, so it must never be derived from the service's own keys.
+ */
+export function createWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${toHex(bytes.buffer)}`;
+}
+
+/**
+ * Signs a webhook body Stripe-style: the signature covers the timestamp and
+ * the raw body, so receivers can verify it and reject replays.
+ */
+export async function createPayloadSignature(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importSigningKey(secret),
+    new TextEncoder().encode(`${timestamp}.${body}`)
+  );
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+/**
+ * Checks a signed URL. Returns the R2 key and its remaining lifetime in
+ * seconds, or null when the signature is invalid or has expired.
+ */
+export async function verifySignedUrl(
+  secret: string,
+  url: URL
+): Promise<{ key: string; remainingSeconds: number } | null> {
+  // Keys are already URL safe, so the path is used exactly as signed
+  const key = url.pathname.slice(SIGNED_URL_PREFIX.length);
+  const expires = Number(url.searchParams.get("expires"));
+  const signature = fromHex(url.searchParams.get("signature") || "");
+
+  const remainingSeconds = expires - Math.floor(Date.now() / 1000);
+  if (
+    !key ||
+    !signature ||
+    !Number.isInteger(expires) ||
+    remainingSeconds <= 0
+  ) {
+    return null;
+  }
+
+  // crypto.subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await importSigningKey(secret),
+    signature,
+    getSignedPayload(key, expires)
+  );
+
+  return valid ? { key, remainingSeconds } : null;
+}
+
+/**
+ * Encodes `payload` as `{base64url JSON}.{hex HMAC-SHA256}`, so it can travel
+ * in a URL and be trusted when it comes back. Tokens are not encrypted.
+ */
+export async function createSignedToken(
+  secret: string,
+  purpose: SigningPurpose,
+  payload: object
+): Promise<string> {
+  const encoded = toBase64Url(JSON.stringify(payload));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importSigningKey(secret),
+    getSignedMessage(purpose, encoded)
+  );
+  return `${encoded}.${toHex(signature)}`;
+}
+
+/**
+ * Returns the payload of a token made by `createSignedToken` for the same
+ * purpose, or null.
+ */
+export async function verifySignedToken<T>(
+  secret: string,
+  purpose: SigningPurpose,
+  token: string
+): Promise<T | null> {
+  const [encoded, hex] = token.split(".");
+  const signature = fromHex(hex || "");
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await importSigningKey(secret),
+    signature,
+    getSignedMessage(purpose, encoded)
+  );
+  const json = valid ? fromBase64Url(encoded) : null;
+  if (json === null) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compares a secret from a request with the configured one without leaking
+ * through timing how much of it matched.
+ */
+export async function secretsMatch(
+  expected: string,
+  given: string
+): Promise<boolean> {
+  if (!expected || !given) {
+    return false;
+  }
+  // Both secrets sign the same message; crypto.subtle.verify compares the
+  // results in constant time
+  const message = new TextEncoder().encode("secret");
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importSigningKey(expected),
+    message
+  );
+  return await crypto.subtle.verify(
+    "HMAC",
+    await importSigningKey(given),
+    signature,
+    message
+  );
+}
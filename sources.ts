@@ -0,0 +1,290 @@
+import { ExtendedEnv } from "./env";
+import { invalid, ValidationResult } from "./schema";
+import { getPrivateKey } from "./storage";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SourceImage {
+  file: File;
+  imageBuffer: ArrayBuffer;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const SOURCE_PARAM = "source";
+
+export const SOURCE_IMAGE = {
+  // Well below the provider's limit, and small enough to hold in memory
+  maxBytes: 20 * 1024 * 1024,
+  timeoutMs: 30_000,
+} as const;
+
+// Only generated images can be referenced by key, never history, jobs or
+// other internal objects in the bucket
+const SOURCE_KEY_PREFIXES = ["/image/", "/edit/", "/generations/"];
+
+const SOURCE_TYPES = [
+  { contentType: "image/png", extension: "png" },
+  { contentType: "image/jpeg", extension: "jpg" },
+  { contentType: "image/webp", extension: "webp" },
+] as const;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/** Identifies the image type from its magic bytes rather than any header. */
+export function detectImageType(
+  buffer: ArrayBuffer
+): (typeof SOURCE_TYPES)[number] | null {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 12));
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  if (ascii(1, 3) === "PNG") {
+    return SOURCE_TYPES[0];
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return SOURCE_TYPES[1];
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    return SOURCE_TYPES[2];
+  }
+  return null;
+}
+
+export function getImageDimensions(
+  buffer: ArrayBuffer
+): { width: number; height: number } | null {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  // PNG: dimensions live in the IHDR chunk right after the signature
+  if (bytes.length >= 24 && ascii(1, 3) === "PNG") {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          width: view.getUint16(offset + 7),
+          height: view.getUint16(offset + 5),
+        };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  }
+
+  // WebP: lossy, lossless and extended variants
+  if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    const chunk = ascii(12, 4);
+    if (chunk === "VP8 ") {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    if (chunk === "VP8X") {
+      // 24-bit little-endian fields, read bytewise so the height stays
+      // within the 30 bytes checked above
+      const uint24 = (offset: number) =>
+        bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+      return { width: uint24(24) + 1, height: uint24(27) + 1 };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads a body into memory, giving up as soon as it grows past `maxBytes`
+ * instead of trusting its Content-Length. Returns null when it is too large.
+ */
+export async function readBodyWithLimit(
+  body: ReadableStream<Uint8Array> | null,
+  maxBytes: number
+): Promise<ArrayBuffer | null> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  if (body) {
+    const reader = body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      length += value.byteLength;
+      if (length > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+function sourceTooLarge(): ValidationResult<never> {
+  return invalid(
+    "invalid_source",
+    SOURCE_PARAM,
+    `Source images must be at most ${SOURCE_IMAGE.maxBytes / 1024 / 1024} MB`
+  );
+}
+
+async function fetchSourceUrl(
+  url: string
+): Promise<ValidationResult<ArrayBuffer>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: "image/png, image/jpeg, image/webp" },
+      signal: AbortSignal.timeout(SOURCE_IMAGE.timeoutMs),
+    });
+  } catch {
+    return invalid(
+      "invalid_source",
+      SOURCE_PARAM,
+      "The source image could not be fetched"
+    );
+  }
+  if (!response.ok) {
+    return invalid(
+      "invalid_source",
+      SOURCE_PARAM,
+      `The source image could not be fetched: HTTP ${response.status}`
+    );
+  }
+  if (Number(response.headers.get("Content-Length")) > SOURCE_IMAGE.maxBytes) {
+    return sourceTooLarge();
+  }
+
+  // The header is optional and can understate the body, so the size is
+  // checked while reading too
+  let imageBuffer: ArrayBuffer | null;
+  try {
+    imageBuffer = await readBodyWithLimit(response.body, SOURCE_IMAGE.maxBytes);
+  } catch {
+    return invalid(
+      "invalid_source",
+      SOURCE_PARAM,
+      "The source image could not be fetched"
+    );
+  }
+  return imageBuffer ? { ok: true, value: imageBuffer } : sourceTooLarge();
+}
+
+/**
+ * Reads a generated image from R2. Private images can only be used by their
+ * owner, so `userId` is null for anonymous requests.
+ */
+async function readSourceKey(
+  env: ExtendedEnv,
+  raw: string,
+  userId: string | null
+): Promise<ValidationResult<ArrayBuffer>> {
+  const key = raw.startsWith("/") ? raw : `/${raw}`;
+  const allowed =
+    SOURCE_KEY_PREFIXES.some((prefix) => key.startsWith(prefix)) ||
+    (userId !== null && key.startsWith(await getPrivateKey(env, userId, "/")));
+  const stored = allowed ? await env.stripeimages.get(key) : null;
+  if (!stored) {
+    return invalid(
+      "invalid_source",
+      SOURCE_PARAM,
+      `Source image "${key}" not found`
+    );
+  }
+  if (stored.size > SOURCE_IMAGE.maxBytes) {
+    return sourceTooLarge();
+  }
+  return { ok: true, value: await stored.arrayBuffer() };
+}
+
+// =============================================================================
+// SOURCE IMAGES
+// =============================================================================
+
+/**
+ * Loads the reference image of a variation from an https URL or the R2 key of
+ * a previous generation, accepting only PNG, JPEG and WebP images.
+ */
+export async function loadSourceImage(
+  env: ExtendedEnv,
+  raw: string,
+  userId: string | null
+): Promise<ValidationResult<SourceImage>> {
+  let loaded: ValidationResult<ArrayBuffer>;
+  // Anything with a scheme is a URL, and only https is fetched
+  if (/^[a-z][a-z0-9+.-]*:/i.test(raw)) {
+    if (!raw.toLowerCase().startsWith("https://")) {
+      return invalid(
+        "invalid_source",
+        SOURCE_PARAM,
+        "source must be an https URL or the key of a generated image"
+      );
+    }
+    loaded = await fetchSourceUrl(raw);
+  } else {
+    loaded = await readSourceKey(env, raw, userId);
+  }
+  if (!loaded.ok) {
+    return loaded;
+  }
+
+  const imageBuffer = loaded.value;
+  if (imageBuffer.byteLength > SOURCE_IMAGE.maxBytes) {
+    return sourceTooLarge();
+  }
+  const type = detectImageType(imageBuffer);
+  if (!type) {
+    return invalid(
+      "invalid_source",
+      SOURCE_PARAM,
+      "Unsupported source image format",
+      SOURCE_TYPES.map((sourceType) => sourceType.contentType)
+    );
+  }
+
+  return {
+    ok: true,
+    value: {
+      file: new File([imageBuffer], `source.${type.extension}`, {
+        type: type.contentType,
+      }),
+      imageBuffer,
+    },
+  };
+}
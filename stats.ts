@@ -0,0 +1,640 @@
+import { DurableObject } from "cloudflare:workers";
+import { ExtendedEnv } from "./env";
+import {
+  createNegotiatedErrorResponse,
+  createNegotiatedResponse,
+  escapeHtml,
+  renderHtmlPage,
+  renderHtmlTable,
+} from "./negotiation";
+import { formatCents, formatDollars } from "./pricing";
+import { createErrorResponse } from "./responses";
+import { listCleanupReports } from "./retention";
+import {
+  createValidationErrorResponse,
+  invalid,
+  ValidationResult,
+} from "./schema";
+import { secretsMatch } from "./signing";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What the routes report as it happens. Revenue is what the user was finally
+ * charged, provider cost what OpenAI bills us for the same generation.
+ */
+export type StatsEvent =
+  | {
+      type: "generation";
+      userId: string;
+      images: number;
+      revenueInCents: number;
+      providerCostInDollars: number;
+    }
+  | { type: "cache_hit" }
+  | { type: "failure" }
+  | { type: "rejection" };
+
+export interface UsageTotals {
+  generations: number;
+  imagesGenerated: number;
+  revenueInCents: number;
+  providerCostInDollars: number;
+  cacheHits: number;
+  failures: number;
+  rejections: number;
+}
+
+export interface UserUsage {
+  generations: number;
+  imagesGenerated: number;
+  revenueInCents: number;
+  providerCostInDollars: number;
+}
+
+export interface DailyStats extends UsageTotals {
+  date: string;
+  users: Record<string, UserUsage>;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface StatsReport extends DateRange {
+  totals: UsageTotals;
+  days: Array<UsageTotals & { date: string }>;
+  topUsers: Array<UserUsage & { userId: string }>;
+}
+
+export type StatsTable = "days" | "users";
+
+export interface MarginPayload {
+  revenue: string;
+  revenueInCents: number;
+  providerCost: string;
+  providerCostInDollars: number;
+  margin: string;
+  marginInDollars: number;
+  marginPercentage: number | null;
+}
+
+export interface TotalsPayload extends MarginPayload {
+  generations: number;
+  imagesGenerated: number;
+  cacheHits: number;
+  cacheHitRate: number | null;
+  failures: number;
+  rejections: number;
+}
+
+export interface StatsPayload extends DateRange {
+  totals: TotalsPayload;
+  days: Array<TotalsPayload & { date: string }>;
+  topUsers: Array<
+    MarginPayload & {
+      userId: string;
+      generations: number;
+      imagesGenerated: number;
+    }
+  >;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const STATS = {
+  defaultDays: 30,
+  maxDays: 366,
+  topUsers: 10,
+} as const;
+
+const DAY_KEY_PREFIX = "day:";
+
+const DAY_MS = 86_400_000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+// Days run on UTC, as the spend limits do
+function getDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    generations: 0,
+    imagesGenerated: 0,
+    revenueInCents: 0,
+    providerCostInDollars: 0,
+    cacheHits: 0,
+    failures: 0,
+    rejections: 0,
+  };
+}
+
+function emptyUserUsage(): UserUsage {
+  return {
+    generations: 0,
+    imagesGenerated: 0,
+    revenueInCents: 0,
+    providerCostInDollars: 0,
+  };
+}
+
+function addUsage<T extends UserUsage>(target: T, usage: UserUsage): T {
+  target.generations += usage.generations;
+  target.imagesGenerated += usage.imagesGenerated;
+  target.revenueInCents += usage.revenueInCents;
+  target.providerCostInDollars += usage.providerCostInDollars;
+  return target;
+}
+
+function getStatsStub(env: ExtendedEnv) {
+  // One instance sees every event, so a report is a single read
+  return env.OPERATOR_STATS.get(env.OPERATOR_STATS.idFromName("operator"));
+}
+
+/**
+ * Counts an event for the operator's reports. Never throws and is not
+ * awaited: reporting must not slow down or fail a user's request.
+ */
+export function recordStats(env: ExtendedEnv, event: StatsEvent): void {
+  try {
+    getStatsStub(env)
+      .record(event)
+      .catch((error) => {
+        console.error("Failed to record stats:", error);
+      });
+  } catch (error) {
+    console.error("Failed to record stats:", error);
+  }
+}
+
+/** Totals, daily rows and the users with the most revenue over a range. */
+export async function getStatsReport(
+  env: ExtendedEnv,
+  range: DateRange
+): Promise<StatsReport> {
+  const days = await getStatsStub(env).getDays(range.from, range.to);
+
+  const totals = emptyTotals();
+  const users = new Map<string, UserUsage>();
+  for (const day of days) {
+    addUsage(totals, day);
+    totals.cacheHits += day.cacheHits;
+    totals.failures += day.failures;
+    totals.rejections += day.rejections;
+    // Durable Object RPC results lose the record's value type
+    const dayUsers = day.users as Record<string, UserUsage>;
+    for (const [userId, usage] of Object.entries(dayUsers)) {
+      users.set(userId, addUsage(users.get(userId) ?? emptyUserUsage(), usage));
+    }
+  }
+
+  return {
+    ...range,
+    totals,
+    days: days.map(({ users: _users, ...day }) => day),
+    topUsers: [...users.entries()]
+      .map(([userId, usage]) => ({ userId, ...usage }))
+      .sort((a, b) => b.revenueInCents - a.revenueInCents)
+      .slice(0, STATS.topUsers),
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function parseDate(
+  value: string | null,
+  field: string
+): ValidationResult<Date | null> {
+  if (value === null || value === "") {
+    return { ok: true, value: null };
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  if (
+    !DATE_PATTERN.test(value) ||
+    isNaN(date.getTime()) ||
+    getDay(date) !== value
+  ) {
+    return invalid(
+      "invalid_date_range",
+      field,
+      `${field} must be a date in the form YYYY-MM-DD`
+    );
+  }
+  return { ok: true, value: date };
+}
+
+/**
+ * Validates an inclusive `from`/`to` range of UTC days. Without `to` the
+ * range ends today, and without `from` it covers the default number of days.
+ */
+export function validateDateRange(
+  params: URLSearchParams
+): ValidationResult<DateRange> {
+  const from = parseDate(params.get("from"), "from");
+  if (!from.ok) {
+    return from;
+  }
+  const to = parseDate(params.get("to"), "to");
+  if (!to.ok) {
+    return to;
+  }
+
+  const end = to.value ?? new Date(`${getDay(new Date())}T00:00:00Z`);
+  const start =
+    from.value ?? new Date(end.getTime() - (STATS.defaultDays - 1) * DAY_MS);
+  if (start > end) {
+    return invalid("invalid_date_range", "from", "from must not be after to");
+  }
+  if ((end.getTime() - start.getTime()) / DAY_MS + 1 > STATS.maxDays) {
+    return invalid(
+      "invalid_date_range",
+      "from",
+      `A report covers at most ${STATS.maxDays} days`
+    );
+  }
+
+  return { ok: true, value: { from: getDay(start), to: getDay(end) } };
+}
+
+// =============================================================================
+// REPORTS
+// =============================================================================
+
+function getMargin(usage: UserUsage): MarginPayload {
+  const marginInDollars =
+    usage.revenueInCents / 100 - usage.providerCostInDollars;
+  return {
+    revenue: formatCents(usage.revenueInCents),
+    revenueInCents: usage.revenueInCents,
+    providerCost: formatDollars(usage.providerCostInDollars),
+    providerCostInDollars: Number(usage.providerCostInDollars.toFixed(6)),
+    margin: formatDollars(marginInDollars),
+    marginInDollars: Number(marginInDollars.toFixed(6)),
+    marginPercentage:
+      usage.revenueInCents > 0
+        ? Number(((marginInDollars * 10_000) / usage.revenueInCents).toFixed(1))
+        : null,
+  };
+}
+
+/** Hits over every request that was either served from R2 or generated. */
+function getCacheHitRate(totals: UsageTotals): number | null {
+  const requests = totals.cacheHits + totals.generations + totals.failures;
+  return requests > 0 ? Number((totals.cacheHits / requests).toFixed(4)) : null;
+}
+
+function getTotalsPayload(totals: UsageTotals): TotalsPayload {
+  return {
+    generations: totals.generations,
+    imagesGenerated: totals.imagesGenerated,
+    ...getMargin(totals),
+    cacheHits: totals.cacheHits,
+    cacheHitRate: getCacheHitRate(totals),
+    failures: totals.failures,
+    rejections: totals.rejections,
+  };
+}
+
+/** The JSON view of a report, shared by the dashboard's other formats. */
+export function getStatsPayload(report: StatsReport): StatsPayload {
+  return {
+    from: report.from,
+    to: report.to,
+    totals: getTotalsPayload(report.totals),
+    days: report.days.map((day) => ({
+      date: day.date,
+      ...getTotalsPayload(day),
+    })),
+    topUsers: report.topUsers.map((user) => ({
+      userId: user.userId,
+      generations: user.generations,
+      imagesGenerated: user.imagesGenerated,
+      ...getMargin(user),
+    })),
+  };
+}
+
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One report table as CSV, with money in plain numbers for spreadsheets. */
+export function createStatsCsv(report: StatsReport, table: StatsTable): string {
+  const rows: unknown[][] =
+    table === "days"
+      ? [
+          [
+            "date",
+            "generations",
+            "images_generated",
+            "revenue_usd",
+            "provider_cost_usd",
+            "margin_usd",
+            "cache_hits",
+            "cache_hit_rate",
+            "failures",
+            "rejections",
+          ],
+          ...report.days.map((day) => [
+            day.date,
+            day.generations,
+            day.imagesGenerated,
+            (day.revenueInCents / 100).toFixed(2),
+            day.providerCostInDollars.toFixed(6),
+            (day.revenueInCents / 100 - day.providerCostInDollars).toFixed(6),
+            day.cacheHits,
+            getCacheHitRate(day) ?? "",
+            day.failures,
+            day.rejections,
+          ]),
+        ]
+      : [
+          [
+            "user_id",
+            "generations",
+            "images_generated",
+            "revenue_usd",
+            "provider_cost_usd",
+            "margin_usd",
+          ],
+          ...report.topUsers.map((user) => [
+            user.userId,
+            user.generations,
+            user.imagesGenerated,
+            (user.revenueInCents / 100).toFixed(2),
+            user.providerCostInDollars.toFixed(6),
+            (user.revenueInCents / 100 - user.providerCostInDollars).toFixed(6),
+          ]),
+        ];
+
+  return rows.map((row) => row.map(toCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// =============================================================================
+// RESPONSES
+// =============================================================================
+
+/** Operator reports hold revenue figures, so they are never cached. */
+function createAdminReportResponse(
+  request: Request,
+  report: StatsReport
+): Response {
+  const payload = getStatsPayload(report);
+  const { totals } = payload;
+  const range = `from=${report.from}&to=${report.to}`;
+  const formatRate = (rate: number | null) =>
+    rate === null ? "-" : `${(rate * 100).toFixed(1)}%`;
+  const formatPercentage = (percentage: number | null) =>
+    percentage === null ? "-" : `${percentage}%`;
+  const summary: Array<[string, string]> = [
+    ["Generations", String(totals.generations)],
+    ["Images generated", String(totals.imagesGenerated)],
+    ["Revenue", totals.revenue],
+    ["Estimated OpenAI cost", totals.providerCost],
+    [
+      "Margin",
+      `${totals.margin} (${formatPercentage(totals.marginPercentage)})`,
+    ],
+    ["Cache hits", String(totals.cacheHits)],
+    ["Cache hit rate", formatRate(totals.cacheHitRate)],
+    ["Failures", String(totals.failures)],
+    ["Rejected prompts", String(totals.rejections)],
+  ];
+
+  return createNegotiatedResponse(
+    request,
+    "json",
+    {
+      json: () => payload,
+      html: () =>
+        renderHtmlPage(
+          "Operator dashboard",
+          `<h1>Operator dashboard</h1>
+<form method="get" action="/admin">
+<label>From <input type="date" name="from" value="${escapeHtml(
+            report.from
+          )}"></label>
+<label>To <input type="date" name="to" value="${escapeHtml(report.to)}"></label>
+<button type="submit">Show</button>
+</form>
+<p>Export as CSV: <a href="/admin/days.csv?${range}">daily totals</a>, <a href="/admin/users.csv?${range}">top users</a></p>
+<h2>Totals</h2>
+${renderHtmlTable([["Metric", "Value"], ...summary])}
+<h2>Daily</h2>
+${renderHtmlTable([
+  [
+    "Date",
+    "Images",
+    "Revenue",
+    "OpenAI cost",
+    "Margin",
+    "Cache hit rate",
+    "Failures",
+    "Rejections",
+  ],
+  ...payload.days.map((day) => [
+    day.date,
+    String(day.imagesGenerated),
+    day.revenue,
+    day.providerCost,
+    day.margin,
+    formatRate(day.cacheHitRate),
+    String(day.failures),
+    String(day.rejections),
+  ]),
+])}
+<h2>Top users</h2>
+${renderHtmlTable([
+  ["User", "Images", "Revenue", "OpenAI cost", "Margin"],
+  ...payload.topUsers.map((user) => [
+    user.userId,
+    String(user.imagesGenerated),
+    user.revenue,
+    user.providerCost,
+    user.margin,
+  ]),
+])}`
+        ),
+      text: () =>
+        [
+          `Operator report ${report.from} to ${report.to}`,
+          "",
+          ...summary.map(([name, value]) => `${name}: ${value}`),
+          "",
+          "Top users:",
+          ...payload.topUsers.map(
+            (user) =>
+              `- ${user.userId}: ${user.imagesGenerated} images, ${user.revenue} revenue, ${user.margin} margin`
+          ),
+        ].join("\n"),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
+
+function createStatsCsvResponse(
+  report: StatsReport,
+  table: StatsTable
+): Response {
+  return new Response(createStatsCsv(report, table), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${table}-${report.from}-${report.to}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// =============================================================================
+// REQUEST HANDLERS
+// =============================================================================
+
+/** The password of HTTP basic auth, which browsers prompt for themselves. */
+function getBasicAuthPassword(request: Request): string | null {
+  const match = request.headers.get("Authorization")?.match(/^Basic\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  try {
+    const binary = atob(match[1].trim());
+    const credentials = new TextDecoder().decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    );
+    const separator = credentials.indexOf(":");
+    return separator === -1 ? null : credentials.slice(separator + 1);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Revenue, cost and usage reports and cleanup runs for the operator, guarded
+ * by `ADMIN_SECRET` as the basic auth password with any user name.
+ */
+export async function handleAdminRequest(
+  request: Request,
+  env: ExtendedEnv
+): Promise<Response> {
+  // Without a secret there is no dashboard to find
+  if (!env.ADMIN_SECRET) {
+    return createErrorResponse(request, "Not Found", 404, "not_found");
+  }
+  const password = getBasicAuthPassword(request);
+  if (!password || !(await secretsMatch(env.ADMIN_SECRET, password))) {
+    return createNegotiatedErrorResponse(
+      request,
+      401,
+      { error: "Operator credentials required", code: "unauthorized" },
+      { "WWW-Authenticate": 'Basic realm="Operator", charset="UTF-8"' }
+    );
+  }
+
+  const url = new URL(request.url);
+  if (url.pathname === "/admin/cleanup") {
+    return new Response(
+      JSON.stringify(
+        { reports: await listCleanupReports(env.stripeimages) },
+        null,
+        2
+      ),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  }
+
+  const exports: Record<string, StatsTable> = {
+    "/admin/days.csv": "days",
+    "/admin/users.csv": "users",
+  };
+  const table = exports[url.pathname];
+  if (url.pathname !== "/admin" && !table) {
+    return createErrorResponse(request, "Not Found", 404, "not_found");
+  }
+
+  const range = validateDateRange(url.searchParams);
+  if (!range.ok) {
+    return createValidationErrorResponse(request, range.error);
+  }
+
+  const report = await getStatsReport(env, range.value);
+  return table
+    ? createStatsCsvResponse(report, table)
+    : createAdminReportResponse(request, report);
+}
+
+// =============================================================================
+// DURABLE OBJECT
+// =============================================================================
+
+/**
+ * A single instance keeps one aggregate per UTC day, so reports never have to
+ * scan the bucket. Events are small and infrequent next to the generations
+ * they describe, so one instance keeps up.
+ */
+export class OperatorStats extends DurableObject<ExtendedEnv> {
+  async record(event: StatsEvent): Promise<void> {
+    const date = getDay(new Date());
+    const key = `${DAY_KEY_PREFIX}${date}`;
+    const day: DailyStats = (await this.ctx.storage.get<DailyStats>(key)) ?? {
+      date,
+      ...emptyTotals(),
+      users: {},
+    };
+
+    switch (event.type) {
+      case "generation": {
+        const usage: UserUsage = {
+          generations: 1,
+          imagesGenerated: event.images,
+          revenueInCents: event.revenueInCents,
+          providerCostInDollars: event.providerCostInDollars,
+        };
+        addUsage(day, usage);
+        day.users[event.userId] = addUsage(
+          day.users[event.userId] ?? emptyUserUsage(),
+          usage
+        );
+        break;
+      }
+      case "cache_hit":
+        day.cacheHits += 1;
+        break;
+      case "failure":
+        day.failures += 1;
+        break;
+      case "rejection":
+        day.rejections += 1;
+        break;
+    }
+
+    await this.ctx.storage.put(key, day);
+  }
+
+  /** Days with any activity between `from` and `to`, both inclusive. */
+  async getDays(from: string, to: string): Promise<DailyStats[]> {
+    const stored = await this.ctx.storage.list<DailyStats>({
+      start: `${DAY_KEY_PREFIX}${from}`,
+      // The end is exclusive, and "~" sorts after the last day's own key
+      end: `${DAY_KEY_PREFIX}${to}~`,
+    });
+    return [...stored.values()];
+  }
+}
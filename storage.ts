@@ -0,0 +1,251 @@
+import { ExtendedEnv } from "./env";
+import type { ImageParams } from "./providers";
+import { IMAGE_REQUEST_SCHEMA, OUTPUT_FORMATS } from "./schema";
+import { createKeyedDigest, sha256Hex, SigningPurpose } from "./signing";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Who generated an image and what for, as recorded in its history entry. */
+export interface ImageObjectMetadata {
+  userId: string;
+  route: string;
+  prompt: string;
+  params: Record<string, unknown>;
+  costInCents: number;
+}
+
+export interface StoredImageMetadata extends ImageObjectMetadata {
+  promptTruncated: boolean;
+  createdAt: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+// R2 allows 2 KB of custom metadata per object, most of it for the prompt
+const MAX_METADATA_PROMPT_BYTES = 1024;
+
+// R2 keys are limited to 1024 bytes
+const MAX_PROMPT_KEY_LENGTH = 512;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/** Cuts text to at most `maxBytes` of UTF-8 without splitting a character. */
+export function truncateUtf8(text: string, maxBytes: number): string {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length <= maxBytes) {
+    return text;
+  }
+  return new TextDecoder()
+    .decode(bytes.subarray(0, maxBytes))
+    .replace(/\uFFFD$/, "");
+}
+
+function toCustomMetadata(
+  metadata: ImageObjectMetadata,
+  createdAt: Date
+): Record<string, string> {
+  const prompt = truncateUtf8(metadata.prompt, MAX_METADATA_PROMPT_BYTES);
+  return {
+    userId: metadata.userId,
+    route: metadata.route,
+    prompt,
+    promptTruncated: String(prompt !== metadata.prompt),
+    params: JSON.stringify(metadata.params),
+    costInCents: String(metadata.costInCents),
+    createdAt: createdAt.toISOString(),
+  };
+}
+
+/**
+ * Reads the metadata `saveImageToR2` stores. Returns null for objects stored
+ * without it, such as images saved before it was recorded.
+ */
+export function parseImageObjectMetadata(
+  customMetadata: Record<string, string> | undefined
+): StoredImageMetadata | null {
+  if (!customMetadata?.userId || !customMetadata.createdAt) {
+    return null;
+  }
+
+  let params: Record<string, unknown> = {};
+  try {
+    params = JSON.parse(customMetadata.params || "{}");
+  } catch {
+    // Keep the rest of the metadata usable
+  }
+
+  return {
+    userId: customMetadata.userId,
+    route: customMetadata.route || "",
+    prompt: customMetadata.prompt || "",
+    promptTruncated: customMetadata.promptTruncated === "true",
+    params,
+    costInCents: Number(customMetadata.costInCents) || 0,
+    createdAt: customMetadata.createdAt,
+  };
+}
+
+// =============================================================================
+// R2 STORAGE
+// =============================================================================
+
+/**
+ * Stores an image, with `metadata` tracing it back to the user, prompt and
+ * charge that produced it.
+ */
+export async function saveImageToR2(
+  env: ExtendedEnv,
+  imageData: string | ArrayBuffer,
+  filename: string,
+  isBase64: boolean = false,
+  contentType: string = "image/png",
+  cacheControl: string = "public, max-age=31536000",
+  metadata?: ImageObjectMetadata
+): Promise<string> {
+  let imageBuffer: ArrayBuffer;
+
+  if (isBase64 && typeof imageData === "string") {
+    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, "");
+    const binaryString = atob(base64Data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    imageBuffer = bytes.buffer;
+  } else if (typeof imageData === "string") {
+    const response = await fetch(imageData);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch image: ${response.status}`);
+    }
+    imageBuffer = await response.arrayBuffer();
+  } else {
+    imageBuffer = imageData;
+  }
+
+  await env.stripeimages.put(filename, imageBuffer, {
+    httpMetadata: {
+      contentType,
+      cacheControl,
+    },
+    customMetadata: metadata && toCustomMetadata(metadata, new Date()),
+  });
+
+  return getPublicUrl(env, filename);
+}
+
+export function getPublicUrl(env: ExtendedEnv, filename: string): string {
+  const isDev = env.ENVIRONMENT === "development";
+  const baseUrl = isDev
+    ? env.R2_DEV_URL || `https://pub-${env.R2_BUCKET_ID}.r2.dev`
+    : env.R2_PUBLIC_URL || "https://imagebucket.brubslabs.com";
+
+  return `${baseUrl}/${filename}`;
+}
+
+// =============================================================================
+// CACHE KEYS
+// =============================================================================
+
+/**
+ * Suffix for cache keys and generation URLs that encodes the model and output
+ * options, so each model, format and variant is cached separately under its
+ * own extension. Options left at their defaults add nothing before it.
+ */
+export function getOutputVariant(params: ImageParams): string {
+  const defaults = IMAGE_REQUEST_SCHEMA.defaults;
+  const model = params.model !== defaults.model ? `-${params.model}` : "";
+  const background =
+    params.background !== defaults.background ? `-${params.background}` : "";
+  const compression =
+    params.outputCompression !== null ? `-q${params.outputCompression}` : "";
+  return `${model}${background}${compression}.${
+    OUTPUT_FORMATS[params.outputFormat].extension
+  }`;
+}
+
+/**
+ * Canonical R2 key for a generation, so requests that differ only in defaults
+ * or URL encoding (e.g. `/image/cat` and `/image/cat/1024x1024/low`) share one
+ * stored image. Long prompts are hashed to stay within R2's key length limit.
+ */
+export async function getImageCacheKey(params: ImageParams): Promise<string> {
+  const normalizedPrompt = params.prompt.normalize("NFC");
+  const encodedPrompt = encodeURIComponent(normalizedPrompt);
+  const promptKey =
+    encodedPrompt.length <= MAX_PROMPT_KEY_LENGTH
+      ? encodedPrompt
+      : `sha256-${await sha256Hex(normalizedPrompt)}`;
+  return `/image/${promptKey}/${params.size}/${
+    params.quality
+  }${getOutputVariant(params)}`;
+}
+
+// =============================================================================
+// PRIVATE IMAGES
+// =============================================================================
+
+export function getSigningSecret(env: ExtendedEnv): string {
+  return env.IMAGE_SIGNING_SECRET || env.DB_SECRET;
+}
+
+// Separate digests, so a shared generations URL says nothing about where its
+// owner's private images are
+async function getOwnerDirectory(
+  env: ExtendedEnv,
+  purpose: Extract<SigningPurpose, "private-key" | "generations">,
+  userId: string
+): Promise<string> {
+  const digest = await createKeyedDigest(
+    getSigningSecret(env),
+    purpose,
+    userId
+  );
+  return digest.slice(0, 32);
+}
+
+/**
+ * Private images live under a directory derived from their owner's id with
+ * the signing secret, so they are never served for a public path and cannot
+ * be found by guessing a prompt or a user id. Changing the secret moves them.
+ */
+export async function getPrivateKey(
+  env: ExtendedEnv,
+  userId: string,
+  key: string
+): Promise<string> {
+  return `/private/${await getOwnerDirectory(
+    env,
+    "private-key",
+    userId
+  )}${key}`;
+}
+
+/** A new key for an image stored for one /v1/images/generations response. */
+export async function getGenerationKey(
+  env: ExtendedEnv,
+  userId: string,
+  extension: string
+): Promise<string> {
+  const directory = await getOwnerDirectory(env, "generations", userId);
+  return `/generations/${directory}/${crypto.randomUUID()}.${extension}`;
+}
+
+/**
+ * The prefixes of every image only served to `userId`, which count towards
+ * their storage quota.
+ */
+export async function getOwnerPrefixes(
+  env: ExtendedEnv,
+  userId: string
+): Promise<string[]> {
+  return [
+    await getPrivateKey(env, userId, "/"),
+    `/generations/${await getOwnerDirectory(env, "generations", userId)}/`,
+  ];
+}
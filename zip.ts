@@ -0,0 +1,129 @@
+import { crc32 } from "./crc32";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ZipEntry {
+  name: string;
+  data: ArrayBuffer;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_LENGTH = 30;
+const CENTRAL_HEADER_LENGTH = 46;
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+
+// Version 2.0, the minimum for plain stored entries
+const ZIP_VERSION = 20;
+
+// Names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/** MS-DOS date and time, the only timestamp the basic ZIP headers carry. */
+function getDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      Math.floor(date.getUTCSeconds() / 2),
+    date:
+      ((date.getUTCFullYear() - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+  };
+}
+
+// =============================================================================
+// ARCHIVE
+// =============================================================================
+
+/**
+ * Builds a ZIP archive with every entry stored uncompressed. Images are
+ * already compressed, so deflating them again would cost CPU for nothing.
+ */
+export function createZipArchive(
+  entries: ZipEntry[],
+  modified: Date = new Date()
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const dosDateTime = getDosDateTime(modified);
+  const files = entries.map((entry) => {
+    const data = new Uint8Array(entry.data);
+    return { name: encoder.encode(entry.name), data, crc: crc32(data) };
+  });
+
+  const localLength = files.reduce(
+    (total, file) =>
+      total + LOCAL_HEADER_LENGTH + file.name.length + file.data.length,
+    0
+  );
+  const centralLength = files.reduce(
+    (total, file) => total + CENTRAL_HEADER_LENGTH + file.name.length,
+    0
+  );
+  const archive = new Uint8Array(
+    localLength + centralLength + END_OF_CENTRAL_DIRECTORY_LENGTH
+  );
+  const view = new DataView(archive.buffer);
+
+  // Local headers, each followed by its data
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const file of files) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, dosDateTime.time, true);
+    view.setUint16(offset + 12, dosDateTime.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    archive.set(file.name, offset + LOCAL_HEADER_LENGTH);
+    archive.set(file.data, offset + LOCAL_HEADER_LENGTH + file.name.length);
+    offset += LOCAL_HEADER_LENGTH + file.name.length + file.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  for (const [index, file] of files.entries()) {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, dosDateTime.time, true);
+    view.setUint16(offset + 14, dosDateTime.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // Extra field, comment, disk number and attributes are all zero
+    view.setUint32(offset + 42, offsets[index], true);
+    archive.set(file.name, offset + CENTRAL_HEADER_LENGTH);
+    offset += CENTRAL_HEADER_LENGTH + file.name.length;
+  }
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return archive;
+}